@@ -88,8 +88,63 @@ public class SessionController : ControllerBase
         }
     }
 
+    [HttpPost("{id}/fork")]
+    public async Task<ActionResult<SessionStatusResponse>> ForkSession(string id, [FromBody] ForkSessionRequest request, CancellationToken ct)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.MessageId))
+            {
+                return BadRequest("Message ID is required");
+            }
+
+            var parent = await _sessionManager.GetSessionAsync(id, ct);
+            if (parent == null)
+            {
+                return NotFound("Session not found");
+            }
+            var index = parent.History.FindIndex(m => m.Id == request.MessageId);
+            if (index == -1)
+            {
+                return NotFound("Message not found");
+            }
+
+            // The extension has its own message ids, so it forks after the last command sent up to this message
+            var commandId = parent.History
+                .Take(index + 1)
+                .Select(GetCommandId)
+                .LastOrDefault(c => c != null);
+            if (commandId == null)
+            {
+                return BadRequest("Nothing has been sent to the extension before this message");
+            }
+
+            // The extension copies its own history for the fork; mirror it under the id it chose
+            var forkSessionId = await _copilotCliService.ForkSessionAsync(id, commandId, ct);
+            if (forkSessionId == null)
+            {
+                return NotFound("Command not found in the extension session");
+            }
+            var session = await _sessionManager.ForkSessionAsync(id, request.MessageId, forkSessionId, ct);
+            if (session == null)
+            {
+                return NotFound("Message not found");
+            }
+            _logger.LogInformation("Session {SessionId} forked from {ParentSessionId}", session.Id, id);
+
+            await BroadcastSessionStatus(session, ct);
+
+            return Ok(MapToStatusResponse(session));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to fork session {SessionId}", id);
+            return StatusCode(500, "Failed to fork session");
+        }
+    }
+
     [HttpPost("{id}/command")]
-    public async Task<ActionResult> SendCommand(string id, [FromBody] SendCommandRequest request, CancellationToken ct)
+    public async Task<ActionResult<SendCommandResponse>> SendCommand(string id, [FromBody] SendCommandRequest request, CancellationToken ct)
     {
         try
         {
@@ -108,15 +163,6 @@ public class SessionController : ControllerBase
                 return BadRequest("Command is required");
             }
 
-            // Store user's command as a message
-            var userMessage = new ConversationMessage
-            {
-                Type = MessageType.UserCommand,
-                Content = request.Command
-            };
-            await _sessionManager.AddMessageAsync(id, userMessage, ct);
-            await BroadcastMessage(id, userMessage, ct);
-
             // Update status to processing
             await _sessionManager.UpdateSessionStatusAsync(id, SessionStatus.Processing, ct);
             session = await _sessionManager.GetSessionAsync(id, ct);
@@ -125,10 +171,23 @@ public class SessionController : ControllerBase
             // Send to standalone server and get rich response
             var vsResponse = await _copilotCliService.SendCommandAsync(id, request.Command, ct);
 
+            // Store user's command as a message, tagged with the extension's command id so it can be forked from
+            var userMessage = new ConversationMessage
+            {
+                Type = MessageType.UserCommand,
+                Content = request.Command,
+                Metadata = vsResponse.CommandId == null
+                    ? null
+                    : System.Text.Json.JsonSerializer.Serialize(new { commandId = vsResponse.CommandId })
+            };
+            await _sessionManager.AddMessageAsync(id, userMessage, ct);
+            await BroadcastMessage(id, userMessage, ct);
+
             // Process the rich response
             await ProcessVsCodeResponse(id, vsResponse, ct);
 
-            return Ok();
+            // The extension queues the command and answers with its id, which the client needs to cancel it
+            return Ok(new SendCommandResponse { CommandId = vsResponse.CommandId });
         }
         catch (Exception ex)
         {
@@ -157,19 +216,20 @@ public class SessionController : ControllerBase
             // Remove the answered question
             await _sessionManager.RemovePendingQuestionAsync(id, request.QuestionId, ct);
 
+            // Send to standalone server and get rich response
+            var vsResponse = await _copilotCliService.SendResponseAsync(id, request.QuestionId, request.Response, ct);
+
             // Store user's answer as a message, including the question text in metadata for display
+            // and the extension's command id for forking
             var userMessage = new ConversationMessage
             {
                 Type = MessageType.UserCommand,
                 Content = request.Response,
-                Metadata = System.Text.Json.JsonSerializer.Serialize(new { quotedQuestion = question.Question })
+                Metadata = System.Text.Json.JsonSerializer.Serialize(new { quotedQuestion = question.Question, commandId = vsResponse.CommandId })
             };
             await _sessionManager.AddMessageAsync(id, userMessage, ct);
             await BroadcastMessage(id, userMessage, ct);
 
-            // Send to standalone server and get rich response
-            var vsResponse = await _copilotCliService.SendResponseAsync(id, request.QuestionId, request.Response, ct);
-
             // Process the rich response
             await ProcessVsCodeResponse(id, vsResponse, ct);
 
@@ -182,6 +242,40 @@ public class SessionController : ControllerBase
         }
     }
 
+    [HttpPost("{id}/command/{commandId}/cancel")]
+    public async Task<ActionResult> CancelCommand(string id, string commandId, CancellationToken ct)
+    {
+        try
+        {
+            var session = await _sessionManager.GetSessionAsync(id, ct);
+            if (session == null)
+            {
+                return NotFound("Session not found");
+            }
+
+            await _copilotCliService.CancelCommandAsync(id, commandId, ct);
+
+            var systemMessage = new ConversationMessage
+            {
+                Type = MessageType.SystemInfo,
+                Content = "Command cancelled"
+            };
+            await _sessionManager.AddMessageAsync(id, systemMessage, ct);
+            await BroadcastMessage(id, systemMessage, ct);
+
+            await _sessionManager.UpdateSessionStatusAsync(id, SessionStatus.Idle, ct);
+            session = await _sessionManager.GetSessionAsync(id, ct);
+            await BroadcastSessionStatus(session!, ct);
+
+            return Ok();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to cancel command {CommandId} in session {SessionId}", commandId, id);
+            return StatusCode(500, "Failed to cancel command");
+        }
+    }
+
     [HttpGet("{id}/status")]
     public async Task<ActionResult<SessionStatusResponse>> GetStatus(string id, CancellationToken ct)
     {
@@ -346,6 +440,7 @@ public class SessionController : ControllerBase
                     "yesno" => QuestionType.YesNo,
                     "multiplechoice" => QuestionType.MultipleChoice,
                     "freetext" => QuestionType.FreeText,
+                    "confirmation" => QuestionType.Confirmation,
                     _ => QuestionType.FreeText
                 };
 
@@ -382,6 +477,28 @@ public class SessionController : ControllerBase
         }
     }
 
+    private static string? GetCommandId(ConversationMessage message)
+    {
+        if (string.IsNullOrEmpty(message.Metadata))
+        {
+            return null;
+        }
+
+        try
+        {
+            using var metadata = System.Text.Json.JsonDocument.Parse(message.Metadata);
+            return metadata.RootElement.ValueKind == System.Text.Json.JsonValueKind.Object
+                && metadata.RootElement.TryGetProperty("commandId", out var commandId)
+                && commandId.ValueKind == System.Text.Json.JsonValueKind.String
+                ? commandId.GetString()
+                : null;
+        }
+        catch (System.Text.Json.JsonException)
+        {
+            return null;
+        }
+    }
+
     private async Task BroadcastMessage(string sessionId, ConversationMessage message, CancellationToken ct)
     {
         var role = message.Type switch
@@ -440,7 +557,9 @@ public class SessionController : ControllerBase
             status = session.Status.ToString(),
             startedAt = session.StartedAt,
             lastActivityAt = session.LastActivityAt,
-            currentCommand = session.CurrentCommand
+            currentCommand = session.CurrentCommand,
+            parentSessionId = session.ParentSessionId,
+            forkedFromMessageId = session.ForkedFromMessageId
         };
 
         await _hubContext.Clients.Group(session.Id).SendAsync("OnSessionStatusChanged", payload, ct);
@@ -458,7 +577,9 @@ public class SessionController : ControllerBase
             StartedAt = session.StartedAt,
             LastActivityAt = session.LastActivityAt,
             MessageCount = session.History.Count,
-            PendingQuestionCount = session.PendingQuestions.Count
+            PendingQuestionCount = session.PendingQuestions.Count,
+            ParentSessionId = session.ParentSessionId,
+            ForkedFromMessageId = session.ForkedFromMessageId
         };
     }
 }
@@ -12,12 +12,22 @@ public class SendCommandRequest
     public string Command { get; set; } = string.Empty;
 }
 
+public class SendCommandResponse
+{
+    public string? CommandId { get; set; }
+}
+
 public class RespondToQuestionRequest
 {
     public string QuestionId { get; set; } = string.Empty;
     public string Response { get; set; } = string.Empty;
 }
 
+public class ForkSessionRequest
+{
+    public string MessageId { get; set; } = string.Empty;
+}
+
 public class SessionStatusResponse
 {
     public string SessionId { get; set; } = string.Empty;
@@ -29,6 +39,8 @@ public class SessionStatusResponse
     public DateTime? LastActivityAt { get; set; }
     public int MessageCount { get; set; }
     public int PendingQuestionCount { get; set; }
+    public string? ParentSessionId { get; set; }
+    public string? ForkedFromMessageId { get; set; }
 }
 
 public class GitHubDeviceCodeResponse
@@ -91,11 +103,23 @@ public class RegisterDeviceRequest
 public class VsCodeCommandResponse
 {
     public bool Success { get; set; }
+    public string? CommandId { get; set; }
     public List<VsCodeMessage>? Messages { get; set; }
     public List<VsCodeQuestion>? Questions { get; set; }
     public string? StatusChange { get; set; }
 }
 
+public class VsCodeForkSessionResponse
+{
+    public bool Success { get; set; }
+    public VsCodeSession? Session { get; set; }
+}
+
+public class VsCodeSession
+{
+    public string Id { get; set; } = string.Empty;
+}
+
 public class VsCodeMessage
 {
     public string Role { get; set; } = string.Empty;
@@ -13,5 +13,6 @@ public enum QuestionType
 {
     YesNo,
     MultipleChoice,
-    FreeText
+    FreeText,
+    Confirmation
 }
@@ -13,6 +13,8 @@ public class Session
     public List<ConversationMessage> History { get; set; } = new();
     public Queue<PendingQuestion> PendingQuestions { get; set; } = new();
     public string? CurrentCommand { get; set; }
+    public string? ParentSessionId { get; set; }
+    public string? ForkedFromMessageId { get; set; }
 }
 
 public enum SessionStatus
@@ -64,6 +64,52 @@ public class CopilotCliService : ICopilotCliService
         }
     }
 
+    public async Task<string?> ForkSessionAsync(string sourceSessionId, string commandId, CancellationToken ct = default)
+    {
+        try
+        {
+            _logger.LogInformation("Proxying session fork to VS Code Server for session {SessionId} after command {CommandId}",
+                sourceSessionId, commandId);
+
+            var requestBody = new { commandId };
+            var requestMessage = new HttpRequestMessage(HttpMethod.Post, $"{_vscodeServerUrl}/extension/session/{sourceSessionId}/fork")
+            {
+                Content = JsonContent.Create(requestBody)
+            };
+            requestMessage.Headers.Authorization = new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", _authToken);
+
+            var response = await _httpClient.SendAsync(requestMessage, ct);
+
+            // The command may still be queued, with nothing recorded to fork from yet
+            if (response.StatusCode == System.Net.HttpStatusCode.NotFound)
+            {
+                _logger.LogWarning("VS Code Server has no messages for command {CommandId} in session {SessionId}", commandId, sourceSessionId);
+                return null;
+            }
+
+            if (!response.IsSuccessStatusCode)
+            {
+                var errorContent = await response.Content.ReadAsStringAsync(ct);
+                _logger.LogError("VS Code Server returned {StatusCode}: {Error}", response.StatusCode, errorContent);
+                throw new InvalidOperationException($"VS Code Server returned {response.StatusCode}: {errorContent}");
+            }
+
+            var result = await response.Content.ReadFromJsonAsync<VsCodeForkSessionResponse>(_jsonOptions, ct);
+            if (string.IsNullOrEmpty(result?.Session?.Id))
+            {
+                throw new InvalidOperationException("VS Code Server did not return the forked session");
+            }
+
+            _logger.LogInformation("VS Code Server forked session {SessionId} into {ForkSessionId}", sourceSessionId, result.Session.Id);
+            return result.Session.Id;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to fork session via VS Code Server for session {SessionId}", sourceSessionId);
+            throw;
+        }
+    }
+
     public async Task<VsCodeCommandResponse> SendCommandAsync(string sessionId, string command, CancellationToken ct = default)
     {
         try
@@ -161,6 +207,33 @@ public class CopilotCliService : ICopilotCliService
         }
     }
 
+    public async Task CancelCommandAsync(string sessionId, string commandId, CancellationToken ct = default)
+    {
+        try
+        {
+            _logger.LogInformation("Proxying command cancellation to VS Code Server for session {SessionId}, command {CommandId}", sessionId, commandId);
+
+            var requestMessage = new HttpRequestMessage(HttpMethod.Post, $"{_vscodeServerUrl}/extension/command/{commandId}/cancel");
+            requestMessage.Headers.Authorization = new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", _authToken);
+
+            var response = await _httpClient.SendAsync(requestMessage, ct);
+
+            if (!response.IsSuccessStatusCode)
+            {
+                var errorContent = await response.Content.ReadAsStringAsync(ct);
+                _logger.LogError("VS Code Server returned {StatusCode}: {Error}", response.StatusCode, errorContent);
+                throw new InvalidOperationException($"VS Code Server returned {response.StatusCode}: {errorContent}");
+            }
+
+            _logger.LogInformation("Command {CommandId} cancelled for session {SessionId}", commandId, sessionId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to cancel command {CommandId} via VS Code Server for session {SessionId}", commandId, sessionId);
+            throw;
+        }
+    }
+
     public bool IsSessionActive(string sessionId)
     {
         var session = _sessionManager.GetSessionAsync(sessionId).GetAwaiter().GetResult();
@@ -8,6 +8,7 @@ public interface ISessionManager
     Task<IEnumerable<Session>> GetAllSessionsAsync(CancellationToken ct = default);
     Task<Session?> GetCurrentSessionAsync(CancellationToken ct = default);
     Task<Session?> GetSessionAsync(string sessionId, CancellationToken ct = default);
+    Task<Session?> ForkSessionAsync(string sessionId, string messageId, string forkSessionId, CancellationToken ct = default);
     Task UpdateSessionStatusAsync(string sessionId, SessionStatus status, CancellationToken ct = default);
     Task AddMessageAsync(string sessionId, ConversationMessage message, CancellationToken ct = default);
     Task<PendingQuestion?> AddPendingQuestionAsync(string sessionId, string question, QuestionType type, List<string>? options = null, CancellationToken ct = default);
@@ -82,6 +82,57 @@ public class SessionManager : ISessionManager
         }
     }
 
+    public async Task<Session?> ForkSessionAsync(string sessionId, string messageId, string forkSessionId, CancellationToken ct = default)
+    {
+        await _lock.WaitAsync(ct);
+        try
+        {
+            if (!_sessions.TryGetValue(sessionId, out var parent))
+            {
+                return null;
+            }
+
+            var index = parent.History.FindIndex(m => m.Id == messageId);
+            if (index < 0)
+            {
+                return null;
+            }
+
+            var fork = new Session
+            {
+                Id = forkSessionId,
+                RepositoryOwner = parent.RepositoryOwner,
+                RepositoryName = parent.RepositoryName,
+                RepositoryPath = parent.RepositoryPath,
+                TaskDescription = parent.TaskDescription,
+                Status = SessionStatus.Idle,
+                StartedAt = DateTime.UtcNow,
+                ParentSessionId = parent.Id,
+                ForkedFromMessageId = messageId,
+                History = parent.History
+                    .Take(index + 1)
+                    .Select(m => new ConversationMessage
+                    {
+                        Type = m.Type,
+                        Content = m.Content,
+                        Timestamp = m.Timestamp,
+                        Metadata = m.Metadata
+                    })
+                    .ToList()
+            };
+
+            _sessions[fork.Id] = fork;
+            _logger.LogInformation("Forked session {SessionId} from {ParentSessionId} at message {MessageId}",
+                fork.Id, parent.Id, messageId);
+
+            return fork;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
     public async Task UpdateSessionStatusAsync(string sessionId, SessionStatus status, CancellationToken ct = default)
     {
         await _lock.WaitAsync(ct);
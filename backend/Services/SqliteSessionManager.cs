@@ -69,6 +69,29 @@ public class SqliteSessionManager : ISessionManager, IDisposable
             PRAGMA foreign_keys=ON;
         ";
         cmd.ExecuteNonQuery();
+
+        AddColumnIfMissing("Sessions", "ParentSessionId", "TEXT");
+        AddColumnIfMissing("Sessions", "ForkedFromMessageId", "TEXT");
+    }
+
+    private void AddColumnIfMissing(string table, string column, string type)
+    {
+        using var infoCmd = _connection.CreateCommand();
+        infoCmd.CommandText = $"PRAGMA table_info({table})";
+
+        using (var reader = infoCmd.ExecuteReader())
+        {
+            while (reader.Read())
+            {
+                if (reader.GetString(reader.GetOrdinal("name")) == column)
+                    return;
+            }
+        }
+
+        using var alterCmd = _connection.CreateCommand();
+        alterCmd.CommandText = $"ALTER TABLE {table} ADD COLUMN {column} {type}";
+        alterCmd.ExecuteNonQuery();
+        _logger.LogInformation("Added column {Column} to {Table}", column, table);
     }
 
     public async Task<Session> StartSessionAsync(string repositoryOwner, string repositoryName, string? taskDescription = null, CancellationToken ct = default)
@@ -181,6 +204,102 @@ public class SqliteSessionManager : ISessionManager, IDisposable
         }
     }
 
+    public async Task<Session?> ForkSessionAsync(string sessionId, string messageId, string forkSessionId, CancellationToken ct = default)
+    {
+        await _lock.WaitAsync(ct);
+        try
+        {
+            Session? parent = null;
+            using (var readCmd = _connection.CreateCommand())
+            {
+                readCmd.CommandText = "SELECT * FROM Sessions WHERE Id = $id";
+                readCmd.Parameters.AddWithValue("$id", sessionId);
+
+                using var reader = readCmd.ExecuteReader();
+                if (reader.Read())
+                {
+                    parent = ReadSessionWithRelations(reader);
+                }
+            }
+
+            var index = parent?.History.FindIndex(m => m.Id == messageId) ?? -1;
+            if (parent == null || index < 0)
+            {
+                return null;
+            }
+
+            var fork = new Session
+            {
+                Id = forkSessionId,
+                RepositoryOwner = parent.RepositoryOwner,
+                RepositoryName = parent.RepositoryName,
+                RepositoryPath = parent.RepositoryPath,
+                TaskDescription = parent.TaskDescription,
+                Status = SessionStatus.Idle,
+                StartedAt = DateTime.UtcNow,
+                ParentSessionId = parent.Id,
+                ForkedFromMessageId = messageId
+            };
+
+            using var transaction = _connection.BeginTransaction();
+
+            using (var cmd = _connection.CreateCommand())
+            {
+                cmd.Transaction = transaction;
+                cmd.CommandText = @"
+                    INSERT INTO Sessions (Id, RepositoryOwner, RepositoryName, RepositoryPath, TaskDescription, Status, StartedAt, ParentSessionId, ForkedFromMessageId)
+                    VALUES ($id, $owner, $name, $path, $desc, $status, $startedAt, $parentId, $messageId)";
+                cmd.Parameters.AddWithValue("$id", fork.Id);
+                cmd.Parameters.AddWithValue("$owner", fork.RepositoryOwner);
+                cmd.Parameters.AddWithValue("$name", fork.RepositoryName);
+                cmd.Parameters.AddWithValue("$path", fork.RepositoryPath);
+                cmd.Parameters.AddWithValue("$desc", (object?)fork.TaskDescription ?? DBNull.Value);
+                cmd.Parameters.AddWithValue("$status", (int)fork.Status);
+                cmd.Parameters.AddWithValue("$startedAt", fork.StartedAt.ToString("O"));
+                cmd.Parameters.AddWithValue("$parentId", parent.Id);
+                cmd.Parameters.AddWithValue("$messageId", messageId);
+                cmd.ExecuteNonQuery();
+            }
+
+            foreach (var source in parent.History.Take(index + 1))
+            {
+                var message = new ConversationMessage
+                {
+                    Type = source.Type,
+                    Content = source.Content,
+                    Timestamp = source.Timestamp,
+                    Metadata = source.Metadata
+                };
+
+                using var msgCmd = _connection.CreateCommand();
+                msgCmd.Transaction = transaction;
+                msgCmd.CommandText = @"
+                    INSERT INTO Messages (Id, SessionId, Type, Content, Timestamp, Metadata)
+                    VALUES ($id, $sessionId, $type, $content, $timestamp, $metadata)";
+                msgCmd.Parameters.AddWithValue("$id", message.Id);
+                msgCmd.Parameters.AddWithValue("$sessionId", fork.Id);
+                msgCmd.Parameters.AddWithValue("$type", (int)message.Type);
+                msgCmd.Parameters.AddWithValue("$content", message.Content);
+                msgCmd.Parameters.AddWithValue("$timestamp", message.Timestamp.ToString("O"));
+                msgCmd.Parameters.AddWithValue("$metadata", (object?)message.Metadata ?? DBNull.Value);
+                msgCmd.ExecuteNonQuery();
+
+                fork.History.Add(message);
+            }
+
+            transaction.Commit();
+
+            _logger.LogInformation("Forked session {SessionId} from {ParentSessionId} at message {MessageId}",
+                fork.Id, parent.Id, messageId);
+
+            return fork;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
     public async Task UpdateSessionStatusAsync(string sessionId, SessionStatus status, CancellationToken ct = default)
     {
         await _lock.WaitAsync(ct);
@@ -374,6 +493,8 @@ public class SqliteSessionManager : ISessionManager, IDisposable
             StartedAt = DateTime.Parse(reader.GetString(reader.GetOrdinal("StartedAt"))),
             LastActivityAt = reader.IsDBNull(reader.GetOrdinal("LastActivityAt")) ? null : DateTime.Parse(reader.GetString(reader.GetOrdinal("LastActivityAt"))),
             CurrentCommand = reader.IsDBNull(reader.GetOrdinal("CurrentCommand")) ? null : reader.GetString(reader.GetOrdinal("CurrentCommand")),
+            ParentSessionId = reader.IsDBNull(reader.GetOrdinal("ParentSessionId")) ? null : reader.GetString(reader.GetOrdinal("ParentSessionId")),
+            ForkedFromMessageId = reader.IsDBNull(reader.GetOrdinal("ForkedFromMessageId")) ? null : reader.GetString(reader.GetOrdinal("ForkedFromMessageId")),
         };
 
         // Load messages
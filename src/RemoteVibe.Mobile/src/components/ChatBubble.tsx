@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from 'react';
-import { StyleSheet, Text, View, Animated } from 'react-native';
+import { StyleSheet, Text, View, Animated, Pressable } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ConversationMessage, formatTime } from '../data/types';
 import { colors, borderRadius, spacing, typography } from '../theme/colors';
@@ -7,9 +7,10 @@ import { colors, borderRadius, spacing, typography } from '../theme/colors';
 interface ChatBubbleProps {
   message: ConversationMessage;
   index: number;
+  onLongPress?: (message: ConversationMessage) => void;
 }
 
-export default function ChatBubble({ message, index }: ChatBubbleProps) {
+export default function ChatBubble({ message, index, onLongPress }: ChatBubbleProps) {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(20)).current;
 
@@ -72,7 +73,8 @@ export default function ChatBubble({ message, index }: ChatBubbleProps) {
           <Text style={styles.avatarText}>AI</Text>
         </LinearGradient>
       )}
-      <View
+      <Pressable
+        onLongPress={onLongPress ? () => onLongPress(message) : undefined}
         style={[
           styles.bubble,
           isUser ? styles.bubbleUser : styles.bubbleAssistant,
@@ -109,7 +111,7 @@ export default function ChatBubble({ message, index }: ChatBubbleProps) {
             ))}
           </View>
         )}
-      </View>
+      </Pressable>
       {isUser && (
         <LinearGradient
           colors={[colors.electricBlue + '30', colors.neonPurple + '10']}
@@ -0,0 +1,173 @@
+import React, { useRef, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { LinearGradient } from 'expo-linear-gradient';
+import { PairingPayload } from '../data/types';
+import { colors, borderRadius, spacing, typography } from '../theme/colors';
+
+interface PairingScannerProps {
+  onPair: (payload: PairingPayload) => Promise<void>;
+  onClose: () => void;
+}
+
+export function parsePairingPayload(data: string): PairingPayload | null {
+  try {
+    const payload = JSON.parse(data) as Partial<PairingPayload>;
+    if (
+      payload.type !== 'remote-vibe-pairing' ||
+      payload.version !== 1 ||
+      typeof payload.serverUrl !== 'string' ||
+      typeof payload.backendUrl !== 'string' ||
+      typeof payload.code !== 'string'
+    ) {
+      return null;
+    }
+    return payload as PairingPayload;
+  } catch {
+    return null;
+  }
+}
+
+export default function PairingScanner({ onPair, onClose }: PairingScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [pairing, setPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The camera reports the same code many times a second; only act on the first
+  const handled = useRef(false);
+
+  const handleScanned = async ({ data }: BarcodeScanningResult) => {
+    if (handled.current) return;
+
+    const payload = parsePairingPayload(data);
+    if (!payload) {
+      setError('That is not a RemoteVibe pairing code.');
+      return;
+    }
+    if (new Date(payload.expiresAt).getTime() < Date.now()) {
+      setError('This pairing code has expired. Run "Pair Device" in VS Code again.');
+      return;
+    }
+
+    handled.current = true;
+    setPairing(true);
+    setError(null);
+    try {
+      await onPair(payload);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Pairing failed');
+      handled.current = false;
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Scan pairing code</Text>
+      <Text style={styles.description}>
+        Run "Remote Vibe: Pair Device" in VS Code and point your camera at the QR code.
+      </Text>
+
+      {!permission ? (
+        <ActivityIndicator color={colors.electricBlue} />
+      ) : !permission.granted ? (
+        <TouchableOpacity onPress={requestPermission} activeOpacity={0.7}>
+          <LinearGradient
+            colors={[colors.electricBlue, colors.neonPurple]}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 0 }}
+            style={styles.button}
+          >
+            <Text style={styles.buttonText}>Allow camera access</Text>
+          </LinearGradient>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.cameraFrame}>
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={pairing ? undefined : handleScanned}
+          />
+          {pairing && (
+            <View style={styles.overlay}>
+              <ActivityIndicator size="large" color={colors.electricBlue} />
+              <Text style={styles.overlayText}>Pairing...</Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <TouchableOpacity onPress={onClose} activeOpacity={0.7} style={styles.cancelButton}>
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    padding: spacing.xl,
+    justifyContent: 'center',
+  },
+  title: {
+    ...typography.subheader,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    ...typography.body,
+    marginBottom: spacing.xl,
+  },
+  cameraFrame: {
+    aspectRatio: 1,
+    borderRadius: borderRadius.lg,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: colors.glassBorderLight,
+  },
+  camera: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.backgroundOverlay,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  overlayText: {
+    ...typography.bodyBold,
+    marginTop: spacing.md,
+  },
+  button: {
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+  buttonText: {
+    ...typography.bodyBold,
+  },
+  errorText: {
+    ...typography.caption,
+    color: colors.neonRed,
+    marginTop: spacing.md,
+  },
+  cancelButton: {
+    marginTop: spacing.xl,
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  cancelText: {
+    ...typography.bodyBold,
+    color: colors.textSecondary,
+  },
+});
@@ -120,6 +120,32 @@ export default function QuestionCard({ question, onAnswer }: QuestionCardProps)
           </View>
         )}
 
+        {question.questionType === 'Confirmation' && (
+          <View style={styles.yesNoContainer}>
+            {(question.options ?? ['Approve', 'Reject']).map((option, index) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.yesNoButton,
+                  selectedOption === option &&
+                    (index === 0 ? styles.yesButtonSelected : styles.noButtonSelected),
+                ]}
+                onPress={() => setSelectedOption(option)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    styles.yesNoText,
+                    selectedOption === option && styles.yesNoTextSelected,
+                  ]}
+                >
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {question.questionType === 'FreeText' && (
           <TextInput
             style={styles.freeTextInput}
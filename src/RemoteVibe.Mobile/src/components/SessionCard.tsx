@@ -9,9 +9,11 @@ interface SessionCardProps {
   session: Session;
   onPress: (session: Session) => void;
   index: number;
+  depth?: number;
+  parentLabel?: string;
 }
 
-export default function SessionCard({ session, onPress, index }: SessionCardProps) {
+export default function SessionCard({ session, onPress, index, depth = 0, parentLabel }: SessionCardProps) {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
   const scaleAnim = useRef(new Animated.Value(1)).current;
@@ -74,6 +76,7 @@ export default function SessionCard({ session, onPress, index }: SessionCardProp
       style={{
         opacity: fadeAnim,
         transform: [{ translateY: slideAnim }, { scale: scaleAnim }],
+        marginLeft: depth * spacing.lg,
       }}
     >
       <TouchableOpacity
@@ -103,6 +106,15 @@ export default function SessionCard({ session, onPress, index }: SessionCardProp
               {repoDisplay}
             </Text>
 
+            {session.parentSessionId && (
+              <View style={styles.lineageRow}>
+                <Text style={styles.lineageIcon}>{'<-'}</Text>
+                <Text style={styles.lineageText} numberOfLines={1}>
+                  Forked from {parentLabel ?? session.parentSessionId.slice(0, 8)}
+                </Text>
+              </View>
+            )}
+
             {session.taskDescription && (
               <Text style={styles.taskDescription} numberOfLines={2}>
                 {session.taskDescription}
@@ -173,6 +185,23 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     marginBottom: spacing.sm,
   },
+  lineageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  lineageIcon: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.hotPink,
+    fontFamily: 'monospace',
+  },
+  lineageText: {
+    ...typography.caption,
+    flex: 1,
+    color: colors.hotPink,
+  },
   taskDescription: {
     ...typography.body,
     fontSize: 13,
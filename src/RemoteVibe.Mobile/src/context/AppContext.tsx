@@ -42,6 +42,9 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       setBackendUrlState(url);
       apiClient.setBaseUrl(url);
     });
+    storage.getDeviceCredential().then((credential) => {
+      apiClient.setPairedServer(credential);
+    });
 
     // Initialize push notifications
     notificationService.registerForPushNotifications().then((token) => {
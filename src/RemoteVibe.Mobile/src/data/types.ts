@@ -12,6 +12,8 @@ export interface Session {
   currentCommand: string | null;
   messageCount?: number;
   pendingQuestionCount?: number;
+  parentSessionId?: string | null;
+  forkedFromMessageId?: string | null;
 }
 
 export interface GitHubRepository {
@@ -70,7 +72,11 @@ export interface ConversationMessage {
   metadata?: MessageMetadata;
 }
 
-export type QuestionType = 'MultipleChoice' | 'YesNo' | 'FreeText';
+export interface SendCommandResponse {
+  commandId?: string | null;
+}
+
+export type QuestionType = 'MultipleChoice' | 'YesNo' | 'FreeText' | 'Confirmation';
 
 export interface PendingQuestion {
   id: string;
@@ -81,6 +87,34 @@ export interface PendingQuestion {
   timestamp: string;
 }
 
+export interface PairingPayload {
+  type: 'remote-vibe-pairing';
+  version: 1;
+  serverUrl: string;
+  backendUrl: string;
+  code: string;
+  expiresAt: string;
+  fingerprint: string | null;
+  publicKeyPin: string | null;
+}
+
+export interface PairResponse {
+  success: boolean;
+  deviceId: string;
+  token: string;
+  scopes: string[];
+}
+
+export interface DeviceCredential {
+  deviceId: string;
+  token: string;
+  serverUrl: string;
+  fingerprint: string | null;
+  publicKeyPin: string | null;
+  scopes: string[];
+  pairedAt: string;
+}
+
 export interface TaskCompletedEvent {
   sessionId: string;
   commandId: string;
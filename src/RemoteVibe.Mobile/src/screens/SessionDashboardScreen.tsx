@@ -10,6 +10,7 @@ import {
   useWindowDimensions,
   ScrollView,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -44,6 +45,8 @@ export default function SessionDashboardScreen({
   const [questions, setQuestions] = useState<PendingQuestion[]>([]);
   const [showQuestions, setShowQuestions] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [cancelling, setCancelling] = useState(false);
+  const [sentCommandId, setSentCommandId] = useState<string | null>(null);
   const insets = useSafeAreaInsets();
   const { width } = useWindowDimensions();
   const isTablet = width > 768;
@@ -136,12 +139,30 @@ export default function SessionDashboardScreen({
 
   const handleSendCommand = useCallback(async (text: string) => {
     try {
-      await apiClient.sendCommand(sessionId, text);
+      const result = await apiClient.sendCommand(sessionId, text);
+      setSentCommandId(result?.commandId ?? null);
     } catch {
       // Command failed - could show an error toast here
     }
   }, [sessionId]);
 
+  // The backend stores user messages without metadata, so fall back to the id the send returned
+  const activeCommandId = [...messages]
+    .reverse()
+    .find((m) => m.role === 'User' && m.metadata?.commandId)?.metadata?.commandId ?? sentCommandId;
+
+  const handleCancelCommand = useCallback(async () => {
+    if (!activeCommandId) return;
+    setCancelling(true);
+    try {
+      await apiClient.cancelCommand(sessionId, activeCommandId);
+    } catch {
+      // Command may have already finished - the status update will reflect that
+    } finally {
+      setCancelling(false);
+    }
+  }, [sessionId, activeCommandId]);
+
   const handleAnswerQuestion = useCallback(async (questionId: string, answer: string) => {
     setQuestions((prev) => prev.filter((q) => q.id !== questionId));
     if (questions.length <= 1) setShowQuestions(false);
@@ -152,6 +173,23 @@ export default function SessionDashboardScreen({
     }
   }, [sessionId, questions.length]);
 
+  const handleForkFromMessage = useCallback((message: ConversationMessage) => {
+    Alert.alert('Fork session', 'Start a new session with the conversation up to this message?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Fork',
+        onPress: async () => {
+          try {
+            const forked = await apiClient.forkSession(sessionId, message.id);
+            navigation.push('SessionDashboard', { sessionId: forked.sessionId });
+          } catch (e: any) {
+            Alert.alert('Fork failed', e.message || 'Could not fork the session');
+          }
+        },
+      },
+    ]);
+  }, [sessionId, navigation]);
+
   if (loading || !session) {
     return (
       <View style={[styles.container, styles.loadingContainer]}>
@@ -180,7 +218,7 @@ export default function SessionDashboardScreen({
         ref={flatListRef}
         data={messages}
         renderItem={({ item, index }) => (
-          <ChatBubble message={item} index={index} />
+          <ChatBubble message={item} index={index} onLongPress={handleForkFromMessage} />
         )}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.messagesList}
@@ -279,6 +317,20 @@ export default function SessionDashboardScreen({
                 {formatTimeAgo(session.lastActivityAt)}
               </Text>
             )}
+            {session.status === 'Processing' && activeCommandId && (
+              <TouchableOpacity
+                onPress={handleCancelCommand}
+                disabled={cancelling}
+                style={styles.cancelButton}
+                activeOpacity={0.7}
+              >
+                {cancelling ? (
+                  <ActivityIndicator size="small" color={colors.neonRed} />
+                ) : (
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                )}
+              </TouchableOpacity>
+            )}
           </View>
         )}
       </View>
@@ -471,6 +523,19 @@ const styles = StyleSheet.create({
     ...typography.caption,
     fontSize: 10,
   },
+  cancelButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neonRed + '20',
+    borderWidth: 1,
+    borderColor: colors.neonRed + '40',
+  },
+  cancelButtonText: {
+    color: colors.neonRed,
+    fontSize: 12,
+    fontWeight: '700',
+  },
 
   // Split view (tablet)
   splitView: {
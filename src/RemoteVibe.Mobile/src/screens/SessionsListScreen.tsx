@@ -23,6 +23,44 @@ interface SessionsListScreenProps {
   navigation: any;
 }
 
+interface SessionListItem {
+  session: Session;
+  depth: number;
+  parent?: Session;
+}
+
+/**
+ * Places each fork directly after the session it was forked from, keeping the
+ * incoming order among siblings. Forks whose parent isn't in the list are
+ * shown as top-level sessions.
+ */
+function orderByLineage(sessions: Session[]): SessionListItem[] {
+  const byId = new Map(sessions.map((s) => [s.sessionId, s]));
+  const children = new Map<string, Session[]>();
+  const roots: Session[] = [];
+
+  for (const session of sessions) {
+    const parentId = session.parentSessionId;
+    if (parentId && byId.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), session]);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const items: SessionListItem[] = [];
+  const visit = (session: Session, depth: number) => {
+    const parentId = session.parentSessionId;
+    items.push({ session, depth, parent: parentId ? byId.get(parentId) : undefined });
+    for (const child of children.get(session.sessionId) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((session) => visit(session, 0));
+
+  return items;
+}
+
 export default function SessionsListScreen({ navigation }: SessionsListScreenProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -80,6 +118,7 @@ export default function SessionsListScreen({ navigation }: SessionsListScreenPro
         (s.currentCommand?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false)
     )
     : sessions;
+  const listItems = orderByLineage(filteredSessions);
 
   const handleSessionPress = useCallback(
     (session: Session) => {
@@ -93,9 +132,15 @@ export default function SessionsListScreen({ navigation }: SessionsListScreenPro
   };
 
   const renderSessionItem = useCallback(
-    ({ item, index }: { item: Session; index: number }) => (
+    ({ item, index }: { item: SessionListItem; index: number }) => (
       <View style={isTablet ? styles.gridItem : undefined}>
-        <SessionCard session={item} onPress={handleSessionPress} index={index} />
+        <SessionCard
+          session={item.session}
+          onPress={handleSessionPress}
+          index={index}
+          depth={isTablet ? 0 : Math.min(item.depth, 3)}
+          parentLabel={item.parent?.taskDescription || item.parent?.sessionId.slice(0, 8)}
+        />
       </View>
     ),
     [handleSessionPress, isTablet]
@@ -182,9 +227,9 @@ export default function SessionsListScreen({ navigation }: SessionsListScreenPro
         </View>
       ) : (
         <FlatList
-          data={filteredSessions}
+          data={listItems}
           renderItem={renderSessionItem}
-          keyExtractor={(item) => item.sessionId}
+          keyExtractor={(item) => item.session.sessionId}
           contentContainerStyle={[
             styles.listContent,
             { paddingLeft: isTablet ? 80 + spacing.xl : spacing.xl },
@@ -11,14 +11,25 @@ import {
   useWindowDimensions,
   ActivityIndicator,
   Platform,
+  Modal,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as WebBrowser from 'expo-web-browser';
+import * as Device from 'expo-device';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import GlassCard from '../components/GlassCard';
+import PairingScanner from '../components/PairingScanner';
 import { useApp } from '../context/AppContext';
-import { GitHubAuthStatus, GitHubDeviceCode, CopilotAuthStatus, UsageQuota } from '../data/types';
+import {
+  GitHubAuthStatus,
+  GitHubDeviceCode,
+  CopilotAuthStatus,
+  UsageQuota,
+  DeviceCredential,
+  PairingPayload,
+} from '../data/types';
 import * as apiClient from '../services/apiClient';
+import * as storage from '../services/storage';
 import { colors, borderRadius, spacing, typography } from '../theme/colors';
 
 export default function SettingsScreen() {
@@ -28,6 +39,10 @@ export default function SettingsScreen() {
   const [notifications, setNotifications] = useState(true);
   const [autoScroll, setAutoScroll] = useState(true);
 
+  // Device pairing state
+  const [showScanner, setShowScanner] = useState(false);
+  const [credential, setCredential] = useState<DeviceCredential | null>(null);
+
   // GitHub OAuth state
   const [githubAuthStatus, setGithubAuthStatus] = useState<GitHubAuthStatus | null>(null);
   const [githubAuthLoading, setGithubAuthLoading] = useState(false);
@@ -54,6 +69,10 @@ export default function SettingsScreen() {
     setUrlInput(backendUrl);
   }, [backendUrl]);
 
+  useEffect(() => {
+    storage.getDeviceCredential().then(setCredential);
+  }, []);
+
   // Fetch auth statuses when connected
   useEffect(() => {
     if (isConnected) {
@@ -133,6 +152,32 @@ export default function SettingsScreen() {
     setTimeout(() => setUrlSaved(false), 2000);
   }, [urlInput, backendUrl, setBackendUrl]);
 
+  const handlePair = useCallback(async (payload: PairingPayload) => {
+    const deviceName = Device.deviceName || Device.modelName || 'RemoteVibe Mobile';
+    const result = await apiClient.pairDevice(
+      payload.serverUrl,
+      payload.code,
+      deviceName,
+      payload.publicKeyPin
+    );
+
+    const paired: DeviceCredential = {
+      deviceId: result.deviceId,
+      token: result.token,
+      serverUrl: payload.serverUrl,
+      fingerprint: payload.fingerprint,
+      publicKeyPin: payload.publicKeyPin,
+      scopes: result.scopes,
+      pairedAt: new Date().toISOString(),
+    };
+    await storage.setDeviceCredential(paired);
+    apiClient.setPairedServer(paired);
+    await setBackendUrl(payload.backendUrl);
+
+    setCredential(paired);
+    setShowScanner(false);
+  }, [setBackendUrl]);
+
   const handleToggleConnection = useCallback(async () => {
     if (isConnected) {
       await disconnect();
@@ -395,6 +440,34 @@ export default function SettingsScreen() {
                 </LinearGradient>
               </TouchableOpacity>
             )}
+            <View style={styles.settingDivider} />
+            <Text style={styles.fieldLabel}>Device Pairing</Text>
+            <Text style={styles.inputHint}>
+              {credential
+                ? `Paired with ${credential.serverUrl} on ${new Date(credential.pairedAt).toLocaleDateString()}`
+                : 'Scan the QR code from "Remote Vibe: Pair Device" in VS Code to connect this device'}
+            </Text>
+            {credential?.fingerprint && (
+              <Text style={styles.inputHint} selectable>
+                Certificate SHA-256: {credential.fingerprint}
+              </Text>
+            )}
+            <TouchableOpacity
+              onPress={() => setShowScanner(true)}
+              activeOpacity={0.7}
+              style={styles.saveButton}
+            >
+              <LinearGradient
+                colors={[colors.electricBlue, colors.neonPurple]}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 0 }}
+                style={styles.saveButtonGradient}
+              >
+                <Text style={styles.saveButtonText}>
+                  {credential ? 'Pair Again' : 'Scan Pairing Code'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
           </View>
         </GlassCard>
 
@@ -689,6 +762,14 @@ export default function SettingsScreen() {
           <Text style={styles.logoSubtext}>AI Coding Sessions, Anywhere</Text>
         </View>
       </ScrollView>
+
+      <Modal
+        visible={showScanner}
+        animationType="slide"
+        onRequestClose={() => setShowScanner(false)}
+      >
+        <PairingScanner onPair={handlePair} onClose={() => setShowScanner(false)} />
+      </Modal>
     </View>
   );
 }
@@ -1,3 +1,4 @@
+import { fetch as pinnedFetch } from 'react-native-ssl-pinning';
 import {
   Session,
   ConversationMessage,
@@ -7,6 +8,8 @@ import {
   GitHubDeviceCode,
   CopilotAuthStatus,
   UsageQuota,
+  PairResponse,
+  SendCommandResponse,
 } from '../data/types';
 
 let baseUrl = 'https://localhost:5002';
@@ -19,28 +22,126 @@ export function getBaseUrl(): string {
   return baseUrl;
 }
 
+interface PairedServer {
+  serverUrl: string;
+  token: string;
+  publicKeyPin: string | null;
+}
+
+let pairedServer: PairedServer | null = null;
+
+// The credential from pairing with the VS Code extension. Its device token and
+// public key pin only apply to requests to that server; the backend has its
+// own certificate and must never see the extension's token.
+export function setPairedServer(server: PairedServer | null): void {
+  pairedServer = server && { ...server, serverUrl: server.serverUrl.replace(/\/+$/, '') };
+}
+
+function getPairedServer(url: string): PairedServer | null {
+  if (!pairedServer) return null;
+  const { serverUrl } = pairedServer;
+  return url === serverUrl || url.startsWith(`${serverUrl}/`) ? pairedServer : null;
+}
+
+interface ApiResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  text: () => Promise<string>;
+}
+
+async function send(url: string, init: RequestInit, pin: string | null): Promise<ApiResponse> {
+  if (!pin || !url.startsWith('https://')) {
+    const response = await fetch(url, init);
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type'),
+      text: () => response.text(),
+    };
+  }
+
+  try {
+    const response = await pinnedFetch(url, {
+      method: (init.method ?? 'GET') as 'DELETE' | 'GET' | 'POST' | 'PUT',
+      headers: init.headers as Record<string, string> | undefined,
+      body: typeof init.body === 'string' ? init.body : undefined,
+      pkPinning: true,
+      sslPinning: { certs: [pin] },
+      timeoutInterval: 15000,
+    });
+    const contentType = Object.entries(response.headers)
+      .find(([name]) => name.toLowerCase() === 'content-type')?.[1] ?? null;
+    return { ok: true, status: response.status, statusText: '', contentType, text: () => response.text() };
+  } catch (e) {
+    // Rejections carry the response for HTTP errors and a message for TLS failures
+    if (typeof e === 'object' && e !== null && 'status' in e) {
+      const { status, bodyString } = e as { status: number; bodyString?: string };
+      return { ok: false, status, statusText: 'request rejected', contentType: null, text: async () => bodyString ?? '' };
+    }
+    throw new Error(`The server certificate does not match the paired certificate (${String(e)})`);
+  }
+}
+
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
   const url = `${baseUrl}${path}`;
-  const response = await fetch(url, {
+  const paired = getPairedServer(url);
+  const response = await send(url, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
-      ...options?.headers,
+      ...(paired ? { Authorization: `Bearer ${paired.token}` } : {}),
+      ...(options?.headers as Record<string, string> | undefined),
     },
-  });
+  }, paired?.publicKeyPin ?? null);
 
   if (!response.ok) {
     const text = await response.text().catch(() => '');
     throw new Error(`API ${response.status}: ${text || response.statusText}`);
   }
 
-  const contentType = response.headers.get('content-type');
-  if (contentType?.includes('application/json')) {
-    return response.json();
+  if (response.contentType?.includes('application/json')) {
+    return JSON.parse(await response.text()) as T;
   }
   return undefined as T;
 }
 
+// Pairing talks to the VS Code extension directly, not the backend. Over HTTPS
+// the extension's certificate is self-signed, so the connection is only trusted
+// if its public key matches the pin from the pairing QR code.
+export async function pairDevice(
+  serverUrl: string,
+  code: string,
+  deviceName: string,
+  publicKeyPin: string | null
+): Promise<PairResponse> {
+  const url = `${serverUrl.replace(/\/+$/, '')}/extension/pair`;
+
+  if (url.startsWith('https://') && !publicKeyPin) {
+    throw new Error('Pairing failed: the pairing code has no certificate pin');
+  }
+
+  let response: ApiResponse;
+  try {
+    response = await send(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, deviceName }),
+    }, publicKeyPin);
+  } catch (e) {
+    throw new Error(`Pairing failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Pairing failed (${response.status}): ${text || response.statusText}`);
+  }
+
+  return JSON.parse(await response.text()) as PairResponse;
+}
+
 // Session APIs
 export async function getAllSessions(): Promise<Session[]> {
   return request<Session[]>('/api/session');
@@ -57,17 +158,30 @@ export async function startSession(
   });
 }
 
+export async function forkSession(sessionId: string, messageId: string): Promise<Session> {
+  return request<Session>(`/api/session/${sessionId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ messageId }),
+  });
+}
+
 export async function getSessionStatus(sessionId: string): Promise<Session> {
   return request<Session>(`/api/session/${sessionId}/status`);
 }
 
-export async function sendCommand(sessionId: string, command: string): Promise<void> {
-  return request<void>(`/api/session/${sessionId}/command`, {
+export async function sendCommand(sessionId: string, command: string): Promise<SendCommandResponse | undefined> {
+  return request<SendCommandResponse | undefined>(`/api/session/${sessionId}/command`, {
     method: 'POST',
     body: JSON.stringify({ command }),
   });
 }
 
+export async function cancelCommand(sessionId: string, commandId: string): Promise<void> {
+  return request<void>(`/api/session/${sessionId}/command/${commandId}/cancel`, {
+    method: 'POST',
+  });
+}
+
 export async function respondToQuestion(
   sessionId: string,
   questionId: string,
@@ -1,6 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { DeviceCredential } from '../data/types';
 
 const BACKEND_URL_KEY = 'backendUrl';
+const DEVICE_CREDENTIAL_KEY = 'deviceCredential';
 const DEFAULT_BACKEND_URL = 'https://localhost:5002';
 
 export async function getBackendUrl(): Promise<string> {
@@ -12,6 +15,22 @@ export async function setBackendUrl(url: string): Promise<void> {
   await AsyncStorage.setItem(BACKEND_URL_KEY, url);
 }
 
+// Device keys are secrets, so they live in the platform keychain rather than AsyncStorage
+export async function getDeviceCredential(): Promise<DeviceCredential | null> {
+  const value = await SecureStore.getItemAsync(DEVICE_CREDENTIAL_KEY);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as DeviceCredential;
+  } catch {
+    return null;
+  }
+}
+
+export async function setDeviceCredential(credential: DeviceCredential): Promise<void> {
+  await SecureStore.setItemAsync(DEVICE_CREDENTIAL_KEY, JSON.stringify(credential));
+}
+
 export async function clearSettings(): Promise<void> {
   await AsyncStorage.removeItem(BACKEND_URL_KEY);
+  await SecureStore.deleteItemAsync(DEVICE_CREDENTIAL_KEY);
 }
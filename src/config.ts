@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { RateLimit } from './types/rateLimit';
 
 export class Config {
     private static readonly SECTION = 'remoteVibe';
@@ -11,6 +12,10 @@ export class Config {
         return vscode.workspace.getConfiguration(this.SECTION).get<string>('backendUrl', 'http://localhost:5001');
     }
 
+    public static getTlsEnabled(): boolean {
+        return vscode.workspace.getConfiguration(this.SECTION).get<boolean>('enableTls', false);
+    }
+
     public static getAutoStart(): boolean {
         return vscode.workspace.getConfiguration(this.SECTION).get<boolean>('autoStart', false);
     }
@@ -19,7 +24,91 @@ export class Config {
         return vscode.workspace.getConfiguration(this.SECTION).get<string>('logLevel', 'info');
     }
 
-    public static getAuthToken(): string {
-        return vscode.workspace.getConfiguration(this.SECTION).get<string>('authToken', 'test-token');
+    /**
+     * The shared token from before device keys existed. Only honoured when it
+     * has been set; there is no built-in default.
+     */
+    public static getLegacyAuthToken(): string | undefined {
+        return vscode.workspace.getConfiguration(this.SECTION).get<string>('authToken', '') || undefined;
+    }
+
+    public static getMaxConcurrentSessions(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('maxConcurrentSessions', 5);
+    }
+
+    /**
+     * Minutes without activity before an open session is completed. 0 disables.
+     */
+    public static getSessionIdleTimeoutMinutes(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('sessionIdleTimeoutMinutes', 120);
+    }
+
+    /**
+     * Minutes a question may wait for an answer before it expires. 0 disables.
+     */
+    public static getQuestionTimeoutMinutes(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('questionTimeoutMinutes', 60);
+    }
+
+    /**
+     * Token buckets by name. `default` applies to every authenticated request;
+     * `command` and `respond` additionally apply to the routes that call the
+     * model. Configured buckets are merged over the defaults.
+     */
+    public static getRateLimits(): Record<string, RateLimit> {
+        const defaults: Record<string, RateLimit> = {
+            default: { burst: 60, perMinute: 120 },
+            command: { burst: 5, perMinute: 10 },
+            respond: { burst: 10, perMinute: 20 }
+        };
+        const configured = vscode.workspace.getConfiguration(this.SECTION).get<Record<string, RateLimit>>('rateLimits', {});
+        return { ...defaults, ...configured };
+    }
+
+    public static getDailyCommandQuota(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('dailyCommandQuota', 200);
+    }
+
+    public static getIdempotencyWindowSeconds(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('idempotencyWindowSeconds', 86400);
+    }
+
+    /**
+     * How many times a command is retried after a transient model error
+     * (rate limits, network failures). 0 disables retries.
+     */
+    public static getModelRetryAttempts(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('modelRetryAttempts', 3);
+    }
+
+    /**
+     * Delay before the first retry; each further retry waits twice as long.
+     */
+    public static getModelRetryBaseDelayMs(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('modelRetryBaseDelayMs', 2000);
+    }
+
+    public static getQuestionConfidenceThreshold(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('questionConfidenceThreshold', 0.5);
+    }
+
+    public static getWorkspaceContextMaxBytes(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('workspaceContextMaxBytes', 8000);
+    }
+
+    public static getGitDiffMaxBytes(): number {
+        return vscode.workspace.getConfiguration(this.SECTION).get<number>('gitDiffMaxBytes', 20000);
+    }
+
+    public static getDeniedPathPatterns(): string[] {
+        return vscode.workspace.getConfiguration(this.SECTION).get<string[]>('deniedPathPatterns', [
+            '.env',
+            '.env.*',
+            '!.env.example',
+            '*.pem',
+            '*.key',
+            'id_rsa*',
+            '.git/'
+        ]);
     }
 }
@@ -1,10 +1,34 @@
 import * as vscode from 'vscode';
 import { HttpServer } from './server/httpServer';
+import { SessionManager } from './services/sessionManager';
+import { SessionEventStream } from './services/sessionEventStream';
+import { ChangeSetService } from './services/changeSetService';
+import { LanguageModelService } from './services/languageModelService';
+import { ContextBuilder } from './services/contextBuilder';
+import { CommandQueue } from './services/commandQueue';
+import { RateLimiter } from './services/rateLimiter';
+import { IdempotencyCache } from './services/idempotencyCache';
+import { FileSessionStore } from './services/fileSessionStore';
+import { DeviceKeyRegistry } from './services/deviceKeyRegistry';
+import { PairingService } from './services/pairingService';
+import { CertificateStore } from './services/certificateStore';
+import { PairingPanel } from './views/pairingPanel';
+import { ApiKeyScope } from './types/auth';
 import { Config } from './config';
 import { logger, LogLevel } from './utils/logger';
 
 let httpServer: HttpServer | null = null;
 let statusBarItem: vscode.StatusBarItem;
+let sessionManager: SessionManager;
+let eventStream: SessionEventStream;
+let changeSetService: ChangeSetService;
+let languageModelService: LanguageModelService;
+let commandQueue: CommandQueue;
+let rateLimiter: RateLimiter;
+let idempotencyCache: IdempotencyCache;
+let deviceKeyRegistry: DeviceKeyRegistry;
+let pairingService: PairingService;
+let certificateStore: CertificateStore;
 
 export function activate(context: vscode.ExtensionContext): void {
     logger.info('Remote Vibe Extension activating');
@@ -12,6 +36,34 @@ export function activate(context: vscode.ExtensionContext): void {
     const logLevel = Config.getLogLevel() as LogLevel;
     logger.setLogLevel(logLevel);
 
+    eventStream = new SessionEventStream();
+    sessionManager = new SessionManager(
+        eventStream,
+        new FileSessionStore(context.globalStorageUri.fsPath)
+    );
+    sessionManager.restore();
+    sessionManager.startIdleSweeper();
+    context.subscriptions.push(sessionManager);
+
+    changeSetService = new ChangeSetService(
+        sessionManager,
+        eventStream,
+        sessionId => commandQueue.isBusy(sessionId)
+    );
+    languageModelService = new LanguageModelService(sessionManager, eventStream, changeSetService);
+    commandQueue = new CommandQueue(sessionManager, languageModelService, new ContextBuilder(), eventStream);
+    rateLimiter = new RateLimiter(context.globalState);
+    idempotencyCache = new IdempotencyCache();
+
+    deviceKeyRegistry = new DeviceKeyRegistry(context.secrets);
+    deviceKeyRegistry.load().catch(error => {
+        logger.error('Failed to load device keys', error);
+    });
+    pairingService = new PairingService(deviceKeyRegistry);
+    context.subscriptions.push(pairingService);
+
+    certificateStore = new CertificateStore(context.globalStorageUri.fsPath);
+
     statusBarItem = vscode.window.createStatusBarItem(
         vscode.StatusBarAlignment.Right,
         100
@@ -40,10 +92,34 @@ export function activate(context: vscode.ExtensionContext): void {
         }
     );
 
+    const createDeviceKeyCommand = vscode.commands.registerCommand(
+        'remoteVibe.createDeviceKey',
+        async () => {
+            await createDeviceKey();
+        }
+    );
+
+    const revokeDeviceKeyCommand = vscode.commands.registerCommand(
+        'remoteVibe.revokeDeviceKey',
+        async () => {
+            await revokeDeviceKey();
+        }
+    );
+
+    const pairDeviceCommand = vscode.commands.registerCommand(
+        'remoteVibe.pairDevice',
+        async () => {
+            await pairDevice();
+        }
+    );
+
     context.subscriptions.push(
         startServerCommand,
         stopServerCommand,
-        showStatusCommand
+        showStatusCommand,
+        createDeviceKeyCommand,
+        revokeDeviceKeyCommand,
+        pairDeviceCommand
     );
 
     if (Config.getAutoStart()) {
@@ -76,17 +152,41 @@ async function startServer(): Promise<void> {
             return;
         }
 
+        await deviceKeyRegistry.load();
+        if (deviceKeyRegistry.getKeys().length === 0 && !Config.getLegacyAuthToken()) {
+            vscode.window.showWarningMessage(
+                'No Remote Vibe device keys exist yet. Run "Remote Vibe: Pair Device" or "Remote Vibe: Create Device Key" to let a device connect.'
+            );
+        }
+
         const port = Config.getPort();
-        httpServer = new HttpServer(port);
+        const tls = Config.getTlsEnabled() ? certificateStore.loadOrCreate() : null;
+        if (!tls) {
+            logger.warn('TLS is disabled; traffic to the server is not encrypted');
+        }
+
+        httpServer = new HttpServer(
+            port,
+            sessionManager,
+            eventStream,
+            changeSetService,
+            languageModelService,
+            commandQueue,
+            rateLimiter,
+            idempotencyCache,
+            deviceKeyRegistry,
+            pairingService,
+            tls
+        );
 
         await httpServer.start();
 
         updateStatusBar(true);
         vscode.window.showInformationMessage(
-            `Remote Vibe server started on port ${port}`
+            `Remote Vibe server started on ${httpServer.getProtocol()} port ${port}`
         );
 
-        logger.info('Server started successfully', { port });
+        logger.info('Server started successfully', { port, protocol: httpServer.getProtocol() });
     } catch (error) {
         logger.error('Failed to start server', error as Error);
         updateStatusBar(false);
@@ -118,21 +218,125 @@ async function stopServer(): Promise<void> {
     }
 }
 
+async function createDeviceKey(): Promise<void> {
+    try {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the device that will use this key',
+            placeHolder: 'e.g. Pixel 8',
+            validateInput: value => value.trim() ? undefined : 'Enter a device name'
+        });
+        if (!name) {
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: ApiKeyScope.Read, description: 'View sessions, messages and events', picked: true },
+                { label: ApiKeyScope.Command, description: 'Start sessions and send commands', picked: true },
+                { label: ApiKeyScope.Respond, description: 'Answer questions and approve changes', picked: true },
+                { label: ApiKeyScope.Admin, description: 'Everything, including deleting sessions' }
+            ],
+            { canPickMany: true, placeHolder: 'Scopes granted to this device' }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const { token } = await deviceKeyRegistry.createKey(
+            name.trim(),
+            picked.map(item => item.label as ApiKeyScope)
+        );
+
+        const selection = await vscode.window.showInformationMessage(
+            `Device key for "${name.trim()}" created. It is shown only once, so copy it now.`,
+            { modal: true, detail: token },
+            'Copy Key'
+        );
+        if (selection === 'Copy Key') {
+            await vscode.env.clipboard.writeText(token);
+        }
+    } catch (error) {
+        logger.error('Failed to create device key', error as Error);
+        vscode.window.showErrorMessage(
+            `Failed to create device key: ${(error as Error).message}`
+        );
+    }
+}
+
+async function revokeDeviceKey(): Promise<void> {
+    try {
+        await deviceKeyRegistry.load();
+        const keys = deviceKeyRegistry.getKeys();
+        if (keys.length === 0) {
+            vscode.window.showInformationMessage('There are no device keys to revoke');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            keys.map(key => ({
+                label: key.name,
+                description: key.scopes.join(', '),
+                detail: `Created ${new Date(key.createdAt).toLocaleString()}`,
+                id: key.id
+            })),
+            { placeHolder: 'Device key to revoke' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        await deviceKeyRegistry.revokeKey(picked.id);
+        vscode.window.showInformationMessage(`Device key for "${picked.label}" revoked`);
+    } catch (error) {
+        logger.error('Failed to revoke device key', error as Error);
+        vscode.window.showErrorMessage(
+            `Failed to revoke device key: ${(error as Error).message}`
+        );
+    }
+}
+
+async function pairDevice(): Promise<void> {
+    try {
+        if (!httpServer || !httpServer.isRunning()) {
+            await startServer();
+            if (!httpServer || !httpServer.isRunning()) {
+                return;
+            }
+        }
+
+        await PairingPanel.show(pairingService, httpServer.getPort(), httpServer.getTlsCredentials());
+    } catch (error) {
+        logger.error('Failed to start pairing', error as Error);
+        vscode.window.showErrorMessage(
+            `Failed to start pairing: ${(error as Error).message}`
+        );
+    }
+}
+
 function showStatus(): void {
     const isRunning = httpServer && httpServer.isRunning();
     const port = httpServer?.getPort() || Config.getPort();
+    const tls = isRunning ? httpServer?.getTlsCredentials() : null;
 
     const message = isRunning
-        ? `Remote Vibe server is running on port ${port}`
+        ? `Remote Vibe server is running on ${httpServer?.getProtocol()} port ${port}`
         : 'Remote Vibe server is not running';
+    const detail = tls
+        ? `Certificate fingerprint (SHA-256):\n${tls.fingerprint}`
+        : undefined;
+
+    const actions = isRunning ? ['Stop Server'] : ['Start Server'];
+    if (tls) {
+        actions.push('Copy Fingerprint');
+    }
 
-    vscode.window.showInformationMessage(message,
-        isRunning ? 'Stop Server' : 'Start Server'
-    ).then(selection => {
+    vscode.window.showInformationMessage(message, { modal: !!detail, detail }, ...actions).then(selection => {
         if (selection === 'Start Server') {
             startServer();
         } else if (selection === 'Stop Server') {
             stopServer();
+        } else if (selection === 'Copy Fingerprint' && tls) {
+            vscode.env.clipboard.writeText(tls.fingerprint);
         }
     });
 }
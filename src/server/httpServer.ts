@@ -1,28 +1,72 @@
 import express, { Express } from 'express';
 import cors from 'cors';
 import bodyParser from 'body-parser';
-import { Server } from 'http';
-import { createRoutes } from './routes';
-import { authMiddleware, errorMiddleware, requestLogger } from './middleware';
+import * as http from 'http';
+import * as https from 'https';
+import { createPairingRoutes, createRoutes } from './routes';
+import {
+    createAuthMiddleware,
+    createIdempotencyMiddleware,
+    createRateLimitMiddleware,
+    errorMiddleware,
+    requestLogger
+} from './middleware';
 import { SessionManager } from '../services/sessionManager';
 import { LanguageModelService } from '../services/languageModelService';
-import { ContextBuilder } from '../services/contextBuilder';
+import { SessionEventStream } from '../services/sessionEventStream';
+import { ChangeSetService } from '../services/changeSetService';
+import { DeviceKeyRegistry } from '../services/deviceKeyRegistry';
+import { PairingService } from '../services/pairingService';
+import { RateLimiter } from '../services/rateLimiter';
+import { CommandQueue } from '../services/commandQueue';
+import { IdempotencyCache } from '../services/idempotencyCache';
+import { TlsCredentials } from '../types/tls';
 import { logger } from '../utils/logger';
 
 export class HttpServer {
     private readonly _app: Express;
-    private _server: Server | null = null;
+    private _server: http.Server | https.Server | null = null;
     private readonly _port: number;
+    private readonly _tls: TlsCredentials | null;
     private readonly _sessionManager: SessionManager;
     private readonly _languageModelService: LanguageModelService;
-    private readonly _contextBuilder: ContextBuilder;
+    private readonly _changeSetService: ChangeSetService;
+    private readonly _eventStream: SessionEventStream;
+    private readonly _deviceKeyRegistry: DeviceKeyRegistry;
+    private readonly _pairingService: PairingService;
+    private readonly _rateLimiter: RateLimiter;
+    private readonly _commandQueue: CommandQueue;
+    private readonly _idempotencyCache: IdempotencyCache;
 
-    constructor(port: number) {
+    /**
+     * The services are owned by the extension so that commands still running,
+     * today's quotas and cached idempotent responses outlive a server restart.
+     */
+    constructor(
+        port: number,
+        sessionManager: SessionManager,
+        eventStream: SessionEventStream,
+        changeSetService: ChangeSetService,
+        languageModelService: LanguageModelService,
+        commandQueue: CommandQueue,
+        rateLimiter: RateLimiter,
+        idempotencyCache: IdempotencyCache,
+        deviceKeyRegistry: DeviceKeyRegistry,
+        pairingService: PairingService,
+        tls: TlsCredentials | null
+    ) {
         this._port = port;
+        this._tls = tls;
+        this._deviceKeyRegistry = deviceKeyRegistry;
+        this._pairingService = pairingService;
         this._app = express();
-        this._sessionManager = new SessionManager();
-        this._languageModelService = new LanguageModelService(this._sessionManager);
-        this._contextBuilder = new ContextBuilder();
+        this._eventStream = eventStream;
+        this._sessionManager = sessionManager;
+        this._changeSetService = changeSetService;
+        this._languageModelService = languageModelService;
+        this._commandQueue = commandQueue;
+        this._rateLimiter = rateLimiter;
+        this._idempotencyCache = idempotencyCache;
 
         this.setupMiddleware();
         this.setupRoutes();
@@ -33,14 +77,22 @@ export class HttpServer {
         this._app.use(cors());
         this._app.use(bodyParser.json());
         this._app.use(requestLogger);
-        this._app.use(authMiddleware);
+        // Pairing is how a device gets its key, so it has to sit in front of auth
+        this._app.use('/', createPairingRoutes(this._pairingService));
+        this._app.use(createAuthMiddleware(this._deviceKeyRegistry));
+        // Replays are answered before rate limiting so a retry never costs quota
+        this._app.use(createIdempotencyMiddleware(this._idempotencyCache));
+        this._app.use(createRateLimitMiddleware(this._rateLimiter, 'default'));
     }
 
     private setupRoutes(): void {
         const routes = createRoutes(
             this._sessionManager,
             this._languageModelService,
-            this._contextBuilder
+            this._changeSetService,
+            this._commandQueue,
+            this._eventStream,
+            this._rateLimiter
         );
         this._app.use('/', routes);
     }
@@ -52,8 +104,12 @@ export class HttpServer {
     public async start(): Promise<void> {
         return new Promise((resolve, reject) => {
             try {
-                this._server = this._app.listen(this._port, () => {
-                    logger.info('HTTP server started', { port: this._port });
+                this._server = this._tls
+                    ? https.createServer({ key: this._tls.key, cert: this._tls.cert }, this._app)
+                    : http.createServer(this._app);
+
+                this._server.listen(this._port, () => {
+                    logger.info('HTTP server started', { port: this._port, protocol: this.getProtocol() });
                     resolve();
                 });
 
@@ -85,6 +141,10 @@ export class HttpServer {
                     resolve();
                 }
             });
+
+            // Event stream clients keep their connections open indefinitely,
+            // so close() would otherwise never complete
+            this._server.closeAllConnections();
         });
     }
 
@@ -95,4 +155,12 @@ export class HttpServer {
     public getPort(): number {
         return this._port;
     }
+
+    public getProtocol(): 'http' | 'https' {
+        return this._tls ? 'https' : 'http';
+    }
+
+    public getTlsCredentials(): TlsCredentials | null {
+        return this._tls;
+    }
 }
@@ -1,33 +1,195 @@
 import { Request, Response, NextFunction } from 'express';
-import { Config } from '../config';
+import { DeviceKeyRegistry } from '../services/deviceKeyRegistry';
+import { RateLimiter } from '../services/rateLimiter';
+import { IdempotencyCache, IdempotencyState } from '../services/idempotencyCache';
+import { RateLimitDecision } from '../types/rateLimit';
+import { ApiKeyScope, AuthenticatedDevice } from '../types/auth';
 import { ErrorCode, ExtensionError } from '../types/errors';
 import { logger } from '../utils/logger';
 
-export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-    const authHeader = req.headers.authorization;
+/**
+ * Authenticates the bearer token against the device key registry and stores
+ * the device in `res.locals.device` for `requireScope` and logging.
+ */
+export function createAuthMiddleware(deviceKeyRegistry: DeviceKeyRegistry) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const authHeader = req.headers.authorization;
 
-    if (!authHeader) {
-        res.status(401).json({
-            error: 'Missing authorization header',
-            code: ErrorCode.UNAUTHORIZED,
-            timestamp: new Date().toISOString()
+        if (!authHeader) {
+            res.status(401).json({
+                error: 'Missing authorization header',
+                code: ErrorCode.UNAUTHORIZED,
+                timestamp: new Date().toISOString()
+            });
+            return;
+        }
+
+        const token = authHeader.replace('Bearer ', '');
+        const device = deviceKeyRegistry.authenticate(token);
+
+        if (!device) {
+            res.status(401).json({
+                error: 'Invalid authentication token',
+                code: ErrorCode.UNAUTHORIZED,
+                timestamp: new Date().toISOString()
+            });
+            return;
+        }
+
+        res.locals.device = device;
+        logger.info('Request authenticated', {
+            method: req.method,
+            path: req.path,
+            deviceId: device.id,
+            deviceName: device.name
         });
-        return;
-    }
 
-    const token = authHeader.replace('Bearer ', '');
-    const expectedToken = Config.getAuthToken();
+        next();
+    };
+}
+
+/**
+ * Rejects requests whose device key lacks `scope`. The admin scope grants
+ * every other scope.
+ */
+export function requireScope(scope: ApiKeyScope) {
+    return (_req: Request, res: Response, next: NextFunction): void => {
+        const device = res.locals.device as AuthenticatedDevice | undefined;
 
-    if (token !== expectedToken) {
-        res.status(401).json({
-            error: 'Invalid authentication token',
-            code: ErrorCode.UNAUTHORIZED,
-            timestamp: new Date().toISOString()
+        if (!device || !(device.scopes.includes(scope) || device.scopes.includes(ApiKeyScope.Admin))) {
+            next(new ExtensionError(
+                `Device key is missing the '${scope}' scope`,
+                ErrorCode.FORBIDDEN,
+                { deviceId: device?.id, requiredScope: scope }
+            ));
+            return;
+        }
+
+        next();
+    };
+}
+
+/**
+ * Takes a token from the device's `bucketName` bucket, answering 429 with
+ * `Retry-After` when it is empty. Must run after the auth middleware.
+ */
+export function createRateLimitMiddleware(rateLimiter: RateLimiter, bucketName: string) {
+    return (_req: Request, res: Response, next: NextFunction): void => {
+        const device = res.locals.device as AuthenticatedDevice;
+        const decision = rateLimiter.consume(device.id, bucketName);
+
+        if (!decision.allowed) {
+            next(rateLimited(res, decision, 'Too many requests', { deviceId: device.id, bucket: bucketName }));
+            return;
+        }
+
+        next();
+    };
+}
+
+/**
+ * Counts the request against the device's daily command quota. Requests
+ * rejected as malformed (400) are refunded, since nothing ran.
+ */
+export function createCommandQuotaMiddleware(rateLimiter: RateLimiter) {
+    return (_req: Request, res: Response, next: NextFunction): void => {
+        const device = res.locals.device as AuthenticatedDevice;
+        const decision = rateLimiter.consumeCommandQuota(device.id);
+
+        if (!decision.allowed) {
+            next(rateLimited(res, decision, 'Daily command quota exceeded', { deviceId: device.id, quota: 'daily' }));
+            return;
+        }
+
+        res.on('finish', () => {
+            if (res.statusCode === 400) {
+                rateLimiter.refundCommandQuota(device.id);
+            }
         });
-        return;
-    }
+        next();
+    };
+}
 
-    next();
+/**
+ * Replays the first successful response to a POST that carries an
+ * `Idempotency-Key` header, so a client retrying after a dropped response
+ * doesn't run the command twice. Failed requests are not cached and can be
+ * retried with the same key. Must run after the auth middleware.
+ */
+export function createIdempotencyMiddleware(idempotencyCache: IdempotencyCache) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const key = req.get('Idempotency-Key');
+        if (req.method !== 'POST' || key === undefined) {
+            next();
+            return;
+        }
+
+        if (key.trim().length === 0 || key.length > 255) {
+            next(new ExtensionError(
+                'Idempotency-Key must be between 1 and 255 characters',
+                ErrorCode.INVALID_COMMAND
+            ));
+            return;
+        }
+
+        const device = res.locals.device as AuthenticatedDevice;
+        const scope = `${device.id}:${req.method}:${req.path}`;
+        const lookup = idempotencyCache.begin(scope, key, req.body);
+
+        switch (lookup.state) {
+            case IdempotencyState.Completed:
+                logger.info('Replaying idempotent response', { deviceId: device.id, path: req.path });
+                res.setHeader('Idempotent-Replayed', 'true');
+                res.status(lookup.response.status).type('application/json').send(lookup.response.body);
+                return;
+            case IdempotencyState.InProgress:
+                next(new ExtensionError(
+                    'A request with this Idempotency-Key is still being processed',
+                    ErrorCode.IDEMPOTENCY_CONFLICT
+                ));
+                return;
+            case IdempotencyState.Mismatch:
+                next(new ExtensionError(
+                    'This Idempotency-Key was already used for a different request',
+                    ErrorCode.IDEMPOTENCY_CONFLICT
+                ));
+                return;
+        }
+
+        let settled = false;
+        const json = res.json.bind(res);
+        res.json = (body: unknown): Response => {
+            settled = true;
+            if (res.statusCode >= 200 && res.statusCode < 300) {
+                idempotencyCache.complete(scope, key, { status: res.statusCode, body: JSON.stringify(body) });
+            } else {
+                idempotencyCache.release(scope, key);
+            }
+            return json(body);
+        };
+        res.on('close', () => {
+            if (!settled) {
+                idempotencyCache.release(scope, key);
+            }
+        });
+
+        next();
+    };
+}
+
+function rateLimited(
+    res: Response,
+    decision: RateLimitDecision,
+    message: string,
+    details: Record<string, unknown>
+): ExtensionError {
+    res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+    logger.warn(message, details);
+
+    return new ExtensionError(message, ErrorCode.RATE_LIMITED, {
+        ...details,
+        retryAfterSeconds: decision.retryAfterSeconds
+    });
 }
 
 export function errorMiddleware(
@@ -62,14 +224,27 @@ function getStatusCode(errorCode: ErrorCode): number {
     switch (errorCode) {
         case ErrorCode.UNAUTHORIZED:
             return 401;
+        case ErrorCode.FORBIDDEN:
+        case ErrorCode.PATH_NOT_ALLOWED:
+            return 403;
         case ErrorCode.SESSION_NOT_FOUND:
+        case ErrorCode.MESSAGE_NOT_FOUND:
         case ErrorCode.QUESTION_NOT_FOUND:
+        case ErrorCode.COMMAND_NOT_FOUND:
+        case ErrorCode.CHANGE_NOT_FOUND:
             return 404;
         case ErrorCode.SESSION_ALREADY_EXISTS:
+        case ErrorCode.SESSION_LIMIT_REACHED:
+        case ErrorCode.SESSION_TIMEOUT:
+        case ErrorCode.INVALID_SESSION_STATE:
+        case ErrorCode.CHANGE_ALREADY_RESOLVED:
+        case ErrorCode.IDEMPOTENCY_CONFLICT:
             return 409;
         case ErrorCode.INVALID_COMMAND:
         case ErrorCode.INVALID_ANSWER:
             return 400;
+        case ErrorCode.RATE_LIMITED:
+            return 429;
         default:
             return 500;
     }
@@ -1,21 +1,42 @@
-import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
+import { Router, Request, Response, NextFunction } from 'express';
 import { SessionManager } from '../services/sessionManager';
 import { LanguageModelService } from '../services/languageModelService';
-import { ContextBuilder } from '../services/contextBuilder';
+import { CommandQueue } from '../services/commandQueue';
+import { SessionEventStream } from '../services/sessionEventStream';
+import { ChangeDecision, ChangeSetService } from '../services/changeSetService';
+import { PairingService } from '../services/pairingService';
+import { RateLimiter } from '../services/rateLimiter';
 import { Validator } from '../utils/validator';
-import { MessageRole, SessionStatus } from '../types/messages';
+import { PathPolicy } from '../utils/pathPolicy';
+import { FileReferenceParser } from '../utils/fileReference';
+import { CommandResponse, QueuedCommandKind } from '../types/commands';
+import { PendingQuestion, QuestionAnswer, RespondRequest } from '../types/questions';
+import { ForkSessionRequest, SessionStatus, SessionSummary, SessionTimelineResponse } from '../types/session';
+import { SessionEvent } from '../types/events';
 import { ErrorCode, ExtensionError } from '../types/errors';
 import { logger } from '../utils/logger';
+import { createCommandQuotaMiddleware, createRateLimitMiddleware, requireScope } from './middleware';
+import { ApiKeyScope, AuthenticatedDevice } from '../types/auth';
+
+const SSE_RETRY_MS = 3000;
+const SSE_HEARTBEAT_MS = 15000;
 
 export function createRoutes(
     sessionManager: SessionManager,
     languageModelService: LanguageModelService,
-    contextBuilder: ContextBuilder
+    changeSetService: ChangeSetService,
+    commandQueue: CommandQueue,
+    eventStream: SessionEventStream,
+    rateLimiter: RateLimiter
 ): Router {
     const router = Router();
 
-    router.post('/extension/session/start', async (req: Request, res: Response) => {
+    // Stricter buckets for the routes that spend model requests
+    const commandRateLimit = createRateLimitMiddleware(rateLimiter, 'command');
+    const commandQuota = createCommandQuotaMiddleware(rateLimiter);
+    const respondRateLimit = createRateLimitMiddleware(rateLimiter, 'respond');
+
+    router.post('/extension/session/start', requireScope(ApiKeyScope.Command), async (req: Request, res: Response, next: NextFunction) => {
         try {
             if (!Validator.validateStartSessionRequest(req.body)) {
                 throw new ExtensionError(
@@ -24,10 +45,42 @@ export function createRoutes(
                 );
             }
 
-            const session = sessionManager.createSession(req.body.repositoryPath);
+            const session = sessionManager.createSession(
+                PathPolicy.resolveRepositoryPath(req.body.repositoryPath),
+                req.body.modelPreferences
+            );
 
             logger.info('Session started', { sessionId: session.id });
 
+            res.status(201).json({
+                success: true,
+                session
+            });
+        } catch (error) {
+            next(error instanceof ExtensionError ? error : new ExtensionError(
+                'Failed to start session',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            ));
+        }
+    });
+
+    router.post('/extension/session/:sessionId/fork', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
+        try {
+            if (!Validator.validateForkSessionRequest(req.body)) {
+                throw new ExtensionError(
+                    'Invalid request body',
+                    ErrorCode.INVALID_COMMAND
+                );
+            }
+
+            const { sessionId } = req.params;
+            const body: ForkSessionRequest = req.body;
+            const messageId = 'messageId' in body
+                ? body.messageId
+                : sessionManager.getLastCommandMessage(sessionId, body.commandId).id;
+            const session = sessionManager.forkSession(sessionId, messageId);
+
             res.status(201).json({
                 success: true,
                 session
@@ -37,14 +90,14 @@ export function createRoutes(
                 throw error;
             }
             throw new ExtensionError(
-                'Failed to start session',
+                'Failed to fork session',
                 ErrorCode.INTERNAL_ERROR,
                 error
             );
         }
     });
 
-    router.post('/extension/command', async (req: Request, res: Response) => {
+    router.post('/extension/command', requireScope(ApiKeyScope.Command), commandRateLimit, commandQuota, async (req: Request, res: Response, next: NextFunction) => {
         try {
             if (!Validator.validateCommandRequest(req.body)) {
                 throw new ExtensionError(
@@ -53,105 +106,224 @@ export function createRoutes(
                 );
             }
 
-            const { sessionId, command, context } = req.body;
-            const commandId = uuidv4();
+            const { sessionId, command, context, modelPreferences } = req.body;
+            const { repositoryPath } = sessionManager.getSession(sessionId);
 
-            sessionManager.updateSessionStatus(sessionId, SessionStatus.Processing, command);
-            sessionManager.addMessage(sessionId, MessageRole.User, command, { commandId });
+            // Reject disallowed files up front; context is only built after the response is sent
+            for (const file of context?.includeFiles || []) {
+                PathPolicy.resolveFilePath(repositoryPath, FileReferenceParser.parse(file).path);
+            }
+
+            const { command: queued, position } = commandQueue.enqueue(sessionId, command, {
+                kind: QueuedCommandKind.Command,
+                context,
+                modelPreferences
+            });
 
-            logger.info('Command received', { sessionId, commandId, command });
+            logger.info('Command received', { sessionId, commandId: queued.commandId, command, position });
+
+            const response: CommandResponse = {
+                success: true,
+                commandId: queued.commandId,
+                status: 'accepted',
+                position,
+                message: position === 0 ? 'Command started' : `Command queued at position ${position}`
+            };
+            res.json(response);
+        } catch (error) {
+            next(error instanceof ExtensionError ? error : new ExtensionError(
+                'Failed to process command',
+                ErrorCode.COMMAND_REJECTED,
+                error
+            ));
+        }
+    });
+
+    router.post('/extension/respond', requireScope(ApiKeyScope.Respond), respondRateLimit, async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (!Validator.validateRespondRequest(req.body)) {
+                throw new ExtensionError(
+                    'Invalid response request',
+                    ErrorCode.INVALID_ANSWER
+                );
+            }
+
+            const body: RespondRequest = req.body;
+            const answers: QuestionAnswer[] = 'answers' in body
+                ? body.answers
+                : [{ questionId: body.questionId, answer: body.answer }];
+            const questions = answers.map(({ questionId }) => sessionManager.findQuestion(questionId));
+
+            // Answers to change approvals are handled here and never reach the model
+            const changeQuestion = questions.find(question => question.changeId);
+            if (changeQuestion && changeQuestion.changeId) {
+                if (answers.length > 1) {
+                    throw new ExtensionError(
+                        'Change approvals must be answered on their own',
+                        ErrorCode.INVALID_ANSWER
+                    );
+                }
+
+                const decision = ChangeSetService.parseDecision(answers[0].answer);
+                if (!decision) {
+                    throw new ExtensionError(
+                        'Answer must approve or reject the proposed changes',
+                        ErrorCode.INVALID_ANSWER
+                    );
+                }
+
+                const { sessionId, id: questionId, changeId } = changeQuestion;
+                logger.info('Change decision received', { sessionId, questionId, changeId, decision });
+
+                const changeSet = decision === ChangeDecision.Approve
+                    ? await changeSetService.approve(sessionId, changeId)
+                    : changeSetService.reject(sessionId, changeId);
+
+                res.json({
+                    success: true,
+                    status: changeSet.status
+                });
+                return;
+            }
+
+            const sessionId = questions[0].sessionId;
+            if (questions.some(question => question.sessionId !== sessionId)) {
+                throw new ExtensionError(
+                    'All answers in a batch must belong to the same session',
+                    ErrorCode.INVALID_ANSWER
+                );
+            }
+
+            // Answer in the order the questions were asked, whatever order they were sent in
+            const pending = sessionManager.getQuestions(sessionId);
+            const answered = questions
+                .map((question, index) => ({ question, answer: answers[index].answer }))
+                .sort((a, b) => pending.indexOf(a.question) - pending.indexOf(b.question));
+
+            for (const { question } of answered) {
+                sessionManager.removeQuestion(question.id);
+            }
+
+            const prompt = formatAnswers(answered);
+            const { command: queued, position } = commandQueue.enqueue(sessionId, prompt, {
+                kind: QueuedCommandKind.Answer
+            });
+
+            logger.info('Response received', {
+                sessionId,
+                commandId: queued.commandId,
+                questionIds: answered.map(({ question }) => question.id)
+            });
 
             res.json({
                 success: true,
-                commandId,
                 status: 'accepted',
-                message: 'Command queued for processing'
+                commandId: queued.commandId,
+                position
             });
+        } catch (error) {
+            next(error instanceof ExtensionError ? error : new ExtensionError(
+                'Failed to process response',
+                ErrorCode.INVALID_ANSWER,
+                error
+            ));
+        }
+    });
 
-            setImmediate(async () => {
-                try {
-                    const contextText = await contextBuilder.buildContext(
-                        sessionManager.getSession(sessionId).repositoryPath,
-                        context
-                    );
+    router.post('/extension/command/:commandId/cancel', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
+        try {
+            const { commandId } = req.params;
+            const { sessionId, wasRunning } = commandQueue.cancel(commandId);
 
-                    await languageModelService.sendRequest(sessionId, command, contextText);
+            logger.info('Command cancel requested', { sessionId, commandId, wasRunning });
 
-                    const questions = sessionManager.getQuestions(sessionId);
-                    if (questions.length === 0) {
-                        sessionManager.updateSessionStatus(sessionId, SessionStatus.Idle);
-                    }
-                } catch (error) {
-                    logger.error('Command execution failed', error as Error, { sessionId, commandId });
-                    sessionManager.updateSessionStatus(sessionId, SessionStatus.Error);
-                }
+            res.json({
+                success: true,
+                commandId,
+                status: 'cancelled'
             });
         } catch (error) {
             if (error instanceof ExtensionError) {
                 throw error;
             }
             throw new ExtensionError(
-                'Failed to process command',
-                ErrorCode.COMMAND_REJECTED,
+                'Failed to cancel command',
+                ErrorCode.INTERNAL_ERROR,
                 error
             );
         }
     });
 
-    router.post('/extension/respond', async (req: Request, res: Response) => {
+    router.post('/extension/command/:commandId/retry', requireScope(ApiKeyScope.Command), commandRateLimit, commandQuota, (req: Request, res: Response) => {
         try {
-            if (!Validator.validateRespondRequest(req.body)) {
-                throw new ExtensionError(
-                    'Invalid response request',
-                    ErrorCode.INVALID_ANSWER
-                );
-            }
+            const { commandId } = req.params;
+            const { command: queued, position } = commandQueue.retry(commandId);
 
-            const { questionId, answer } = req.body;
+            logger.info('Command retry received', { sessionId: queued.sessionId, commandId, retryCommandId: queued.commandId, position });
 
-            sessionManager.removeQuestion(questionId);
+            const response: CommandResponse = {
+                success: true,
+                commandId: queued.commandId,
+                status: 'accepted',
+                position,
+                message: position === 0 ? 'Retry started' : `Retry queued at position ${position}`
+            };
+            res.json(response);
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to retry command',
+                ErrorCode.COMMAND_REJECTED,
+                error
+            );
+        }
+    });
 
-            logger.info('Response received', { questionId, answer });
+    router.get('/extension/sessions', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
+        try {
+            const includeArchived = req.query.includeArchived === 'true';
+            const sessions: SessionSummary[] = sessionManager.getSessions()
+                .filter(session => includeArchived || session.status !== SessionStatus.Archived)
+                .map(session => ({
+                    ...session,
+                    messageCount: sessionManager.getMessages(session.id).length,
+                    pendingQuestionCount: sessionManager.getQuestions(session.id).length
+                }));
 
             res.json({
-                success: true,
-                status: 'accepted'
-            });
-
-            const activeSession = sessionManager.getActiveSession();
-            if (activeSession) {
-                setImmediate(async () => {
-                    try {
-                        sessionManager.addMessage(activeSession.id, MessageRole.User, answer);
-
-                        await languageModelService.sendRequest(activeSession.id, answer);
-
-                        const questions = sessionManager.getQuestions(activeSession.id);
-                        if (questions.length === 0) {
-                            sessionManager.updateSessionStatus(activeSession.id, SessionStatus.Idle);
-                        }
-                    } catch (error) {
-                        logger.error('Failed to process response', error as Error, {
-                            sessionId: activeSession.id,
-                            questionId
-                        });
-                        sessionManager.updateSessionStatus(activeSession.id, SessionStatus.Error);
-                    }
-                });
-            }
+                sessions
+            });
         } catch (error) {
             if (error instanceof ExtensionError) {
                 throw error;
             }
             throw new ExtensionError(
-                'Failed to process response',
-                ErrorCode.INVALID_ANSWER,
+                'Failed to list sessions',
+                ErrorCode.INTERNAL_ERROR,
                 error
             );
         }
     });
 
-    router.get('/extension/session/:sessionId/status', (req: Request, res: Response) => {
+    router.get('/extension/models', requireScope(ApiKeyScope.Read), async (_req: Request, res: Response, next: NextFunction) => {
+        try {
+            const models = await languageModelService.listModels();
+
+            res.json({
+                models
+            });
+        } catch (error) {
+            next(error instanceof ExtensionError ? error : new ExtensionError(
+                'Failed to list language models',
+                ErrorCode.LANGUAGE_MODEL_ERROR,
+                error
+            ));
+        }
+    });
+
+    router.get('/extension/session/:sessionId/status', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
         try {
             const { sessionId } = req.params;
             const session = sessionManager.getSession(sessionId);
@@ -173,7 +345,30 @@ export function createRoutes(
         }
     });
 
-    router.get('/extension/session/:sessionId/messages', (req: Request, res: Response) => {
+    router.get('/extension/session/:sessionId/timeline', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
+        try {
+            const { sessionId } = req.params;
+            const session = sessionManager.getSession(sessionId);
+
+            const timeline: SessionTimelineResponse = {
+                sessionId,
+                status: session.status,
+                transitions: sessionManager.getTransitions(sessionId)
+            };
+            res.json(timeline);
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to get session timeline',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.get('/extension/session/:sessionId/messages', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
         try {
             const { sessionId } = req.params;
             const messages = sessionManager.getMessages(sessionId);
@@ -193,9 +388,249 @@ export function createRoutes(
         }
     });
 
-    router.delete('/extension/session/:sessionId', (req: Request, res: Response) => {
+    router.get('/extension/session/:sessionId/changes', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
+        try {
+            const { sessionId } = req.params;
+            const changes = sessionManager.getChangeSets(sessionId);
+
+            res.json({
+                changes
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to get changes',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.post('/extension/session/:sessionId/changes/:changeId/approve', requireScope(ApiKeyScope.Respond), async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { sessionId, changeId } = req.params;
+            const change = await changeSetService.approve(sessionId, changeId);
+
+            res.json({
+                success: true,
+                change
+            });
+        } catch (error) {
+            next(error instanceof ExtensionError ? error : new ExtensionError(
+                'Failed to apply changes',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            ));
+        }
+    });
+
+    router.post('/extension/session/:sessionId/changes/:changeId/reject', requireScope(ApiKeyScope.Respond), (req: Request, res: Response) => {
+        try {
+            const { sessionId, changeId } = req.params;
+            const change = changeSetService.reject(sessionId, changeId);
+
+            res.json({
+                success: true,
+                change
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to reject changes',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.get('/extension/session/:sessionId/stream', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
+        try {
+            const { sessionId } = req.params;
+            sessionManager.getSession(sessionId); // Validate session exists
+
+            const lastEventId = parseLastEventId(
+                req.header('Last-Event-ID') ?? (req.query.lastEventId as string | undefined)
+            );
+
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+                'X-Accel-Buffering': 'no'
+            });
+            res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+            for (const event of eventStream.getEventsSince(sessionId, lastEventId)) {
+                writeEvent(res, event);
+            }
+
+            const unsubscribe = eventStream.subscribe(sessionId, event => writeEvent(res, event));
+            const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+            logger.info('Event stream opened', { sessionId, lastEventId });
+
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+                logger.info('Event stream closed', { sessionId });
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to open event stream',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.get('/extension/session/:sessionId/queue', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
+        try {
+            res.json({
+                success: true,
+                queue: commandQueue.getQueue(req.params.sessionId)
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to get command queue',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.post('/extension/session/:sessionId/queue/:commandId/move', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
+        try {
+            if (!Validator.validateMoveQueuedCommandRequest(req.body)) {
+                throw new ExtensionError(
+                    'Position must be a positive integer',
+                    ErrorCode.INVALID_COMMAND
+                );
+            }
+
+            const { sessionId, commandId } = req.params;
+            const queue = commandQueue.move(sessionId, commandId, req.body.position);
+
+            res.json({
+                success: true,
+                queue
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to move queued command',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.delete('/extension/session/:sessionId/queue/:commandId', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
+        try {
+            const { sessionId, commandId } = req.params;
+            commandQueue.remove(sessionId, commandId);
+
+            res.json({
+                success: true,
+                queue: commandQueue.getQueue(sessionId)
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to remove queued command',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.post('/extension/session/:sessionId/complete', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
+        try {
+            const { sessionId } = req.params;
+            const session = sessionManager.completeSession(sessionId);
+
+            logger.info('Session completed', { sessionId });
+
+            res.json({
+                success: true,
+                session
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to complete session',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.post('/extension/session/:sessionId/archive', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
         try {
             const { sessionId } = req.params;
+            const session = sessionManager.archiveSession(sessionId);
+
+            logger.info('Session archived', { sessionId });
+
+            res.json({
+                success: true,
+                session
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to archive session',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.post('/extension/session/:sessionId/resume', requireScope(ApiKeyScope.Command), (req: Request, res: Response) => {
+        try {
+            const { sessionId } = req.params;
+            const session = sessionManager.resumeSession(sessionId);
+
+            logger.info('Session resumed', { sessionId });
+
+            res.json({
+                success: true,
+                session
+            });
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                'Failed to resume session',
+                ErrorCode.INTERNAL_ERROR,
+                error
+            );
+        }
+    });
+
+    router.delete('/extension/session/:sessionId', requireScope(ApiKeyScope.Admin), (req: Request, res: Response) => {
+        try {
+            const { sessionId } = req.params;
+            sessionManager.getSession(sessionId);
+            commandQueue.clear(sessionId);
             sessionManager.deleteSession(sessionId);
 
             logger.info('Session deleted', { sessionId });
@@ -216,16 +651,72 @@ export function createRoutes(
         }
     });
 
-    router.get('/extension/health', (req: Request, res: Response) => {
-        const activeSession = sessionManager.getActiveSession();
+    router.get('/extension/health', requireScope(ApiKeyScope.Read), (req: Request, res: Response) => {
+        const openSessions = sessionManager.getOpenSessions();
 
         res.json({
             status: 'healthy',
             version: '1.0.0',
             extensionActive: true,
-            activeSession: activeSession?.id || null
+            activeSessions: openSessions.map(session => session.id),
+            rateLimits: rateLimiter.getStats((res.locals.device as AuthenticatedDevice).id)
         });
     });
 
     return router;
 }
+
+/**
+ * Routes reachable without a device key. They are mounted ahead of the auth
+ * middleware, so each one must do its own checks.
+ */
+export function createPairingRoutes(pairingService: PairingService): Router {
+    const router = Router();
+
+    router.post('/extension/pair', async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (!Validator.validatePairRequest(req.body)) {
+                throw new ExtensionError(
+                    'Invalid pairing request',
+                    ErrorCode.INVALID_COMMAND
+                );
+            }
+
+            const result = await pairingService.redeem(req.body.code, req.body.deviceName.trim());
+
+            res.status(201).json(result);
+        } catch (error) {
+            next(error instanceof ExtensionError
+                ? error
+                : new ExtensionError('Failed to pair device', ErrorCode.INTERNAL_ERROR, error));
+        }
+    });
+
+    return router;
+}
+
+function parseLastEventId(value: string | undefined): number | null {
+    if (!value) {
+        return null;
+    }
+    const id = Number.parseInt(value, 10);
+    return Number.isNaN(id) ? null : id;
+}
+
+function writeEvent(res: Response, event: SessionEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+/**
+ * A single answer is sent as-is; a batch becomes one turn that pairs each
+ * question with its answer so the model sees them together.
+ */
+function formatAnswers(answered: { question: PendingQuestion; answer: string }[]): string {
+    if (answered.length === 1) {
+        return answered[0].answer;
+    }
+
+    return answered
+        .map(({ question, answer }, index) => `${index + 1}. ${question.question}\nAnswer: ${answer}`)
+        .join('\n\n');
+}
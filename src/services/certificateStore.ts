@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as selfsigned from 'selfsigned';
+import { TlsCredentials } from '../types/tls';
+import { logger } from '../utils/logger';
+
+/**
+ * Self-signed certificate for the HTTPS server. Generated on first use and
+ * kept in the extension's storage so the fingerprint that devices pin stays
+ * the same across restarts; it is only replaced once it is close to expiry.
+ */
+export class CertificateStore {
+    private static readonly DIRECTORY = 'tls';
+    private static readonly KEY_FILE = 'server.key';
+    private static readonly CERT_FILE = 'server.crt';
+    private static readonly VALIDITY_DAYS = 825;
+    private static readonly RENEW_BEFORE_MS = 30 * 24 * 60 * 60 * 1000;
+
+    private readonly _directory: string;
+
+    constructor(storageDirectory: string) {
+        this._directory = path.join(storageDirectory, CertificateStore.DIRECTORY);
+    }
+
+    public loadOrCreate(): TlsCredentials {
+        const existing = this.load();
+        if (existing) {
+            return existing;
+        }
+
+        return this.generate();
+    }
+
+    private load(): TlsCredentials | null {
+        const keyPath = path.join(this._directory, CertificateStore.KEY_FILE);
+        const certPath = path.join(this._directory, CertificateStore.CERT_FILE);
+        if (!fs.existsSync(keyPath) || !fs.existsSync(certPath)) {
+            return null;
+        }
+
+        try {
+            const key = fs.readFileSync(keyPath, 'utf-8');
+            const cert = fs.readFileSync(certPath, 'utf-8');
+            const certificate = new crypto.X509Certificate(cert);
+
+            if (new Date(certificate.validTo).getTime() - Date.now() < CertificateStore.RENEW_BEFORE_MS) {
+                logger.info('TLS certificate is about to expire, generating a new one', { validTo: certificate.validTo });
+                return null;
+            }
+            if (!certificate.checkPrivateKey(crypto.createPrivateKey(key))) {
+                logger.warn('TLS certificate does not match its key, generating a new one');
+                return null;
+            }
+
+            return this.toCredentials(key, cert);
+        } catch (error) {
+            logger.warn('Failed to read TLS certificate, generating a new one', { error: (error as Error).message });
+            return null;
+        }
+    }
+
+    private generate(): TlsCredentials {
+        const hostname = os.hostname();
+        const pems = selfsigned.generate(
+            [{ name: 'commonName', value: `Remote Vibe (${hostname})` }],
+            {
+                days: CertificateStore.VALIDITY_DAYS,
+                keySize: 2048,
+                algorithm: 'sha256',
+                extensions: [
+                    { name: 'basicConstraints', cA: false },
+                    { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+                    { name: 'extKeyUsage', serverAuth: true },
+                    {
+                        name: 'subjectAltName',
+                        altNames: [
+                            { type: 2, value: 'localhost' },
+                            { type: 2, value: hostname },
+                            { type: 7, ip: '127.0.0.1' }
+                        ]
+                    }
+                ]
+            }
+        );
+
+        fs.mkdirSync(this._directory, { recursive: true });
+        fs.writeFileSync(path.join(this._directory, CertificateStore.KEY_FILE), pems.private, { mode: 0o600 });
+        fs.writeFileSync(path.join(this._directory, CertificateStore.CERT_FILE), pems.cert);
+
+        const credentials = this.toCredentials(pems.private, pems.cert);
+        logger.info('Generated TLS certificate', { fingerprint: credentials.fingerprint });
+
+        return credentials;
+    }
+
+    private toCredentials(key: string, cert: string): TlsCredentials {
+        const certificate = new crypto.X509Certificate(cert);
+        const publicKey = certificate.publicKey.export({ type: 'spki', format: 'der' });
+
+        return {
+            key,
+            cert,
+            fingerprint: certificate.fingerprint256,
+            publicKeyPin: 'sha256/' + crypto.createHash('sha256').update(publicKey).digest('base64')
+        };
+    }
+}
@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionManager } from './sessionManager';
+import { SessionEventStream } from './sessionEventStream';
+import { WorkspaceEditService } from './workspaceEditService';
+import { ApplyEditsResult, ChangeSet, ChangeSetStatus, EditFailure, FileEdit, ProposedFileChange } from '../types/edits';
+import { TaskResult } from '../types/commands';
+import { MessageRole } from '../types/messages';
+import { QuestionType } from '../types/questions';
+import { SessionStatus } from '../types/session';
+import { SessionEventType } from '../types/events';
+import { ErrorCode, ExtensionError } from '../types/errors';
+import { Diff } from '../utils/diff';
+import { logger } from '../utils/logger';
+
+export enum ChangeDecision {
+    Approve = "approve",
+    Reject = "reject"
+}
+
+/**
+ * Holds model-proposed file edits until a human approves them. Each change
+ * set is paired with a Confirmation question so clients that only know
+ * about questions can still approve or reject it.
+ */
+export class ChangeSetService {
+    private static readonly APPROVE_ANSWERS = ['approve', 'approved', 'apply', 'yes', 'y'];
+    private static readonly REJECT_ANSWERS = ['reject', 'rejected', 'discard', 'no', 'n'];
+
+    private readonly _sessionManager: SessionManager;
+    private readonly _eventStream: SessionEventStream;
+    private readonly _workspaceEditService: WorkspaceEditService;
+    private readonly _isSessionBusy: (sessionId: string) => boolean;
+    // Change sets whose edits are being written, so a second approve can't apply them again
+    private readonly _applying: Set<string> = new Set();
+
+    /**
+     * `isSessionBusy` reports whether the command queue is running or holding
+     * a command for the session.
+     */
+    constructor(
+        sessionManager: SessionManager,
+        eventStream: SessionEventStream,
+        isSessionBusy: (sessionId: string) => boolean
+    ) {
+        this._sessionManager = sessionManager;
+        this._eventStream = eventStream;
+        this._isSessionBusy = isSessionBusy;
+        this._workspaceEditService = new WorkspaceEditService();
+    }
+
+    public static parseDecision(answer: string): ChangeDecision | null {
+        const normalized = answer.trim().toLowerCase();
+        if (ChangeSetService.APPROVE_ANSWERS.includes(normalized)) {
+            return ChangeDecision.Approve;
+        }
+        if (ChangeSetService.REJECT_ANSWERS.includes(normalized)) {
+            return ChangeDecision.Reject;
+        }
+        return null;
+    }
+
+    public async propose(
+        sessionId: string,
+        commandId: string,
+        messageId: string,
+        edits: FileEdit[]
+    ): Promise<ChangeSet | null> {
+        const session = this._sessionManager.getSession(sessionId);
+        const preview = await this._workspaceEditService.previewEdits(session.repositoryPath, edits);
+
+        if (preview.failures.length > 0) {
+            this.recordFailures(sessionId, commandId, 'Some proposed file changes could not be prepared', preview.failures);
+        }
+
+        if (preview.changes.length === 0) {
+            return null;
+        }
+
+        const files: ProposedFileChange[] = preview.changes.map(change => ({
+            ...change,
+            ...Diff.createUnifiedDiff(change.path, change.originalText, change.newText)
+        }));
+
+        const changeSet = this._sessionManager.addChangeSet({
+            id: uuidv4(),
+            sessionId,
+            commandId,
+            messageId,
+            questionId: null,
+            status: ChangeSetStatus.Pending,
+            files,
+            createdAt: new Date().toISOString(),
+            resolvedAt: null,
+            filesChanged: [],
+            failures: []
+        });
+
+        const question = this._sessionManager.addQuestion(sessionId, {
+            id: '',
+            sessionId: '',
+            question: this.describe(files),
+            questionType: QuestionType.Confirmation,
+            options: ['Approve', 'Reject'],
+            timestamp: new Date().toISOString(),
+            changeId: changeSet.id
+        });
+
+        changeSet.questionId = question.id;
+        this._sessionManager.updateChangeSet(changeSet);
+
+        logger.info('Change set proposed', { sessionId, changeId: changeSet.id, fileCount: files.length });
+
+        return changeSet;
+    }
+
+    public async approve(sessionId: string, changeId: string): Promise<ChangeSet> {
+        const changeSet = this.getPendingChangeSet(sessionId, changeId);
+        const session = this._sessionManager.getSession(sessionId);
+
+        this._applying.add(changeId);
+        let result: ApplyEditsResult;
+        try {
+            result = await this._workspaceEditService.applyChanges(session.repositoryPath, changeSet.files);
+        } finally {
+            this._applying.delete(changeId);
+        }
+
+        changeSet.status = ChangeSetStatus.Approved;
+        changeSet.resolvedAt = new Date().toISOString();
+        changeSet.filesChanged = result.filesChanged;
+        changeSet.failures = result.failures;
+        this._sessionManager.updateChangeSet(changeSet);
+
+        if (result.filesChanged.length > 0) {
+            this._sessionManager.addMessage(
+                sessionId,
+                MessageRole.System,
+                `Applied changes to ${result.filesChanged.join(', ')}`,
+                { commandId: changeSet.commandId, filesChanged: result.filesChanged }
+            );
+        }
+        if (result.failures.length > 0) {
+            this.recordFailures(sessionId, changeSet.commandId, 'Some file changes could not be applied', result.failures);
+        }
+
+        const taskResult: TaskResult = {
+            commandId: changeSet.commandId,
+            success: result.failures.length === 0,
+            summary: result.failures.length === 0
+                ? `Applied changes to ${result.filesChanged.length} file(s)`
+                : `Applied changes to ${result.filesChanged.length} file(s), ${result.failures.length} failed`,
+            filesChanged: result.filesChanged
+        };
+        this._eventStream.publish(sessionId, SessionEventType.TaskCompleted, { result: taskResult });
+
+        this.resolveQuestion(changeSet);
+
+        logger.info('Change set approved', { sessionId, changeId, filesChanged: result.filesChanged });
+
+        return changeSet;
+    }
+
+    public reject(sessionId: string, changeId: string): ChangeSet {
+        const changeSet = this.getPendingChangeSet(sessionId, changeId);
+
+        changeSet.status = ChangeSetStatus.Rejected;
+        changeSet.resolvedAt = new Date().toISOString();
+        this._sessionManager.updateChangeSet(changeSet);
+
+        this._sessionManager.addMessage(
+            sessionId,
+            MessageRole.System,
+            `Rejected changes to ${changeSet.files.map(file => file.path).join(', ')}`,
+            { commandId: changeSet.commandId }
+        );
+
+        this.resolveQuestion(changeSet);
+
+        logger.info('Change set rejected', { sessionId, changeId });
+
+        return changeSet;
+    }
+
+    private getPendingChangeSet(sessionId: string, changeId: string): ChangeSet {
+        this._sessionManager.assertOpen(sessionId);
+        const changeSet = this._sessionManager.getChangeSet(sessionId, changeId);
+        if (this._applying.has(changeId)) {
+            throw new ExtensionError(
+                'Change set is already being applied',
+                ErrorCode.CHANGE_ALREADY_RESOLVED
+            );
+        }
+        if (changeSet.status !== ChangeSetStatus.Pending) {
+            throw new ExtensionError(
+                `Change set was already ${changeSet.status}`,
+                ErrorCode.CHANGE_ALREADY_RESOLVED
+            );
+        }
+        return changeSet;
+    }
+
+    private resolveQuestion(changeSet: ChangeSet): void {
+        const pending = this._sessionManager.getQuestions(changeSet.sessionId);
+        if (changeSet.questionId && pending.some(q => q.id === changeSet.questionId)) {
+            this._sessionManager.removeQuestion(changeSet.questionId);
+        }
+
+        // Nothing goes back to the model for a change decision, so the session is done
+        // unless the queue has moved on to another command
+        if (this._sessionManager.getQuestions(changeSet.sessionId).length === 0 && !this._isSessionBusy(changeSet.sessionId)) {
+            this._sessionManager.updateSessionStatus(changeSet.sessionId, SessionStatus.Idle, `Change set ${changeSet.status}`);
+        }
+    }
+
+    private recordFailures(sessionId: string, commandId: string, title: string, failures: EditFailure[]): void {
+        const details = failures.map(failure => `- ${failure.path}: ${failure.reason}`).join('\n');
+        this._sessionManager.addMessage(sessionId, MessageRole.System, `${title}:\n${details}`, { commandId });
+    }
+
+    private describe(files: ProposedFileChange[]): string {
+        const lines = files.map(file => {
+            if (file.originalText === null) {
+                return `- ${file.path} (new file, +${file.additions})`;
+            }
+            if (file.newText === null) {
+                return `- ${file.path} (deleted)`;
+            }
+            return `- ${file.path} (+${file.additions} -${file.deletions})`;
+        });
+        return `Apply changes to ${files.length} file(s)?\n${lines.join('\n')}`;
+    }
+}
@@ -0,0 +1,433 @@
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import { SessionManager } from './sessionManager';
+import { LanguageModelService } from './languageModelService';
+import { ContextBuilder } from './contextBuilder';
+import { SessionEventStream } from './sessionEventStream';
+import { CommandContext, CommandError, CommandQueueSnapshot, QueuedCommand, QueuedCommandKind } from '../types/commands';
+import { MessageRole } from '../types/messages';
+import { ModelSelector } from '../types/models';
+import { SessionStatus } from '../types/session';
+import { SessionEventType } from '../types/events';
+import { ErrorCode, ExtensionError } from '../types/errors';
+import { ModelErrorClassifier } from '../utils/modelErrorClassifier';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface EnqueueOptions {
+    kind: QueuedCommandKind;
+    context?: CommandContext;
+    modelPreferences?: ModelSelector[];
+    retryOf?: string;
+}
+
+interface SessionQueue {
+    running: QueuedCommand | null;
+    pending: QueuedCommand[];
+}
+
+/**
+ * Runs each session's commands one at a time in FIFO order, so the history
+ * of one command is complete before the next one reads it. Answers to
+ * questions go to the front of the queue since they continue the reply the
+ * user is looking at. The queue drives the session's status: processing while
+ * something runs, then waiting for input, error or idle once it drains.
+ * Transient model errors are retried with exponential backoff before a
+ * command is given up on, unless the reply was already saved to the history;
+ * failed commands can then be retried by id.
+ * Queues live in memory only and are lost when the server stops.
+ */
+export class CommandQueue {
+    private static readonly MAX_RETRY_DELAY_MS = 60 * 1000;
+    private static readonly MAX_FAILED_COMMANDS = 50;
+
+    private readonly _queues: Map<string, SessionQueue> = new Map();
+    // Most recent failures, oldest first, kept so they can be retried
+    private readonly _failed: Map<string, QueuedCommand> = new Map();
+    private readonly _sessionManager: SessionManager;
+    private readonly _languageModelService: LanguageModelService;
+    private readonly _contextBuilder: ContextBuilder;
+    private readonly _eventStream: SessionEventStream;
+
+    constructor(
+        sessionManager: SessionManager,
+        languageModelService: LanguageModelService,
+        contextBuilder: ContextBuilder,
+        eventStream: SessionEventStream
+    ) {
+        this._sessionManager = sessionManager;
+        this._languageModelService = languageModelService;
+        this._contextBuilder = contextBuilder;
+        this._eventStream = eventStream;
+    }
+
+    /**
+     * Adds a prompt to the session's queue and returns it with its position:
+     * 0 if it started immediately, otherwise its 1-based place in line.
+     */
+    public enqueue(sessionId: string, prompt: string, options: EnqueueOptions): { command: QueuedCommand; position: number } {
+        this._sessionManager.assertOpen(sessionId);
+
+        const command: QueuedCommand = {
+            commandId: uuidv4(),
+            sessionId,
+            kind: options.kind,
+            prompt,
+            context: options.context,
+            modelPreferences: options.modelPreferences,
+            enqueuedAt: new Date().toISOString(),
+            retryOf: options.retryOf
+        };
+
+        const queue = this.getOrCreateQueue(sessionId);
+        if (options.kind === QueuedCommandKind.Answer) {
+            queue.pending.unshift(command);
+        } else {
+            queue.pending.push(command);
+        }
+
+        logger.info('Command queued', { sessionId, commandId: command.commandId, kind: command.kind });
+
+        this.drain(sessionId);
+        this.publishQueue(sessionId);
+
+        return {
+            command,
+            position: queue.running === command ? 0 : queue.pending.indexOf(command) + 1
+        };
+    }
+
+    /**
+     * Whether a command is running or waiting for the session.
+     */
+    public isBusy(sessionId: string): boolean {
+        const queue = this._queues.get(sessionId);
+        return queue !== undefined && (queue.running !== null || queue.pending.length > 0);
+    }
+
+    public getQueue(sessionId: string): CommandQueueSnapshot {
+        this._sessionManager.getSession(sessionId);
+
+        const queue = this._queues.get(sessionId);
+        return {
+            sessionId,
+            running: queue?.running ?? null,
+            pending: queue ? [...queue.pending] : []
+        };
+    }
+
+    /**
+     * Moves a waiting command to a 1-based position among the waiting commands.
+     */
+    public move(sessionId: string, commandId: string, position: number): CommandQueueSnapshot {
+        const queue = this.getPendingQueue(sessionId, commandId);
+        const index = queue.pending.findIndex(command => command.commandId === commandId);
+
+        const [command] = queue.pending.splice(index, 1);
+        const target = Math.min(Math.max(position, 1), queue.pending.length + 1) - 1;
+        queue.pending.splice(target, 0, command);
+
+        logger.info('Queued command moved', { sessionId, commandId, position: target + 1 });
+        this.publishQueue(sessionId);
+
+        return this.getQueue(sessionId);
+    }
+
+    public remove(sessionId: string, commandId: string): QueuedCommand {
+        const queue = this.getPendingQueue(sessionId, commandId);
+        const index = queue.pending.findIndex(command => command.commandId === commandId);
+        const [removed] = queue.pending.splice(index, 1);
+
+        logger.info('Queued command removed', { sessionId, commandId });
+        this.publishQueue(sessionId);
+
+        return removed;
+    }
+
+    /**
+     * Cancels a command wherever it is: a running command is stopped and the
+     * queue moves on, a waiting one is dropped. Returns its session id.
+     */
+    public cancel(commandId: string): { sessionId: string; wasRunning: boolean } {
+        for (const [sessionId, queue] of this._queues.entries()) {
+            if (queue.running && queue.running.commandId === commandId) {
+                this._languageModelService.cancelCommand(commandId);
+                return { sessionId, wasRunning: true };
+            }
+            if (queue.pending.some(command => command.commandId === commandId)) {
+                this.remove(sessionId, commandId);
+                return { sessionId, wasRunning: false };
+            }
+        }
+
+        throw new ExtensionError(
+            'Command not found or already finished',
+            ErrorCode.COMMAND_NOT_FOUND
+        );
+    }
+
+    /**
+     * Queues a failed command again under a new command id, with the same
+     * prompt, context and model preferences.
+     */
+    public retry(commandId: string): { command: QueuedCommand; position: number } {
+        const failed = this._failed.get(commandId);
+        if (!failed) {
+            throw new ExtensionError(
+                'Command not found or did not fail',
+                ErrorCode.COMMAND_NOT_FOUND,
+                { commandId }
+            );
+        }
+
+        const queued = this.enqueue(failed.sessionId, failed.prompt, {
+            kind: failed.kind,
+            context: failed.context,
+            modelPreferences: failed.modelPreferences,
+            retryOf: commandId
+        });
+        this._failed.delete(commandId);
+
+        logger.info('Command retried', { sessionId: failed.sessionId, commandId, retryCommandId: queued.command.commandId });
+        return queued;
+    }
+
+    /**
+     * Drops everything queued for a session and cancels what is running.
+     */
+    public clear(sessionId: string): void {
+        const queue = this._queues.get(sessionId);
+        if (!queue) {
+            return;
+        }
+
+        queue.pending = [];
+        if (queue.running) {
+            this._languageModelService.cancelCommand(queue.running.commandId);
+        }
+    }
+
+    private drain(sessionId: string): void {
+        const queue = this._queues.get(sessionId);
+        if (!queue || queue.running) {
+            return;
+        }
+
+        const next = queue.pending.shift();
+        if (!next) {
+            this._queues.delete(sessionId);
+            return;
+        }
+
+        queue.running = next;
+        next.startedAt = new Date().toISOString();
+        this._languageModelService.beginCommand(sessionId, next.commandId);
+        this._sessionManager.updateSessionStatus(sessionId, SessionStatus.Processing, 'Command started', next.prompt);
+
+        this.execute(next).then(error => {
+            this._languageModelService.endCommand(next.commandId);
+            queue.running = null;
+
+            try {
+                // A session completed, archived or deleted mid-command takes no further work
+                if (!this._sessionManager.isOpen(sessionId)) {
+                    this._queues.delete(sessionId);
+                    this.publishQueue(sessionId);
+                    return;
+                }
+
+                if (queue.pending.length > 0) {
+                    this.drain(sessionId);
+                } else {
+                    this._queues.delete(sessionId);
+                    this.settleStatus(sessionId, error);
+                }
+                this.publishQueue(sessionId);
+            } catch (drainError) {
+                logger.error('Failed to advance command queue', drainError as Error, { sessionId, commandId: next.commandId });
+                const started = this._queues.get(sessionId)?.running;
+                if (started) {
+                    this._languageModelService.endCommand(started.commandId);
+                }
+                queue.running = null;
+                this._queues.delete(sessionId);
+            }
+        });
+    }
+
+    /**
+     * Runs one command, retrying transient model errors, and resolves to the
+     * error it failed with or null. Never rejects.
+     */
+    private async execute(command: QueuedCommand): Promise<CommandError | null> {
+        const { sessionId, commandId } = command;
+        const cancellationToken = this._languageModelService.getCancellationToken(commandId);
+        let attempts = 0;
+
+        try {
+            if (!this.isPromptRecorded(command)) {
+                this._sessionManager.addMessage(sessionId, MessageRole.User, command.prompt, { commandId });
+            }
+
+            const contextText = command.context
+                ? await this._contextBuilder.buildContext(this._sessionManager.getSession(sessionId).repositoryPath, command.context)
+                : undefined;
+
+            for (;;) {
+                attempts++;
+                try {
+                    const result = await this._languageModelService.sendRequest(sessionId, command.prompt, {
+                        commandId,
+                        contextText,
+                        modelPreferences: command.modelPreferences
+                    });
+
+                    if (!this._sessionManager.hasSession(sessionId)) {
+                        return null;
+                    }
+                    if (result.cancelled) {
+                        this._sessionManager.addMessage(sessionId, MessageRole.System, 'Command cancelled', { commandId });
+                    } else {
+                        this._sessionManager.setLastError(sessionId, null);
+                    }
+                    return null;
+                } catch (error) {
+                    const classified = ModelErrorClassifier.classify(error);
+                    if (!classified.retryable || attempts > Config.getModelRetryAttempts()) {
+                        throw error;
+                    }
+
+                    const delayMs = this.getRetryDelay(attempts);
+                    logger.warn('Retrying command after transient error', { sessionId, commandId, attempts, delayMs });
+                    this._eventStream.publish(sessionId, SessionEventType.CommandRetrying, {
+                        commandId,
+                        attempt: attempts + 1,
+                        delayMs,
+                        error: { commandId, ...classified, attempts, timestamp: new Date().toISOString() }
+                    });
+
+                    await this.waitForRetry(delayMs, cancellationToken);
+                    if (cancellationToken.isCancellationRequested) {
+                        if (this._sessionManager.hasSession(sessionId)) {
+                            this._sessionManager.addMessage(sessionId, MessageRole.System, 'Command cancelled', { commandId });
+                        }
+                        return null;
+                    }
+                }
+            }
+        } catch (error) {
+            logger.error('Command execution failed', error as Error, { sessionId, commandId, attempts });
+
+            const commandError: CommandError = {
+                commandId,
+                ...ModelErrorClassifier.classify(error),
+                attempts,
+                timestamp: new Date().toISOString()
+            };
+            this.rememberFailure(command);
+
+            if (this._sessionManager.hasSession(sessionId)) {
+                this._sessionManager.addMessage(
+                    sessionId,
+                    MessageRole.System,
+                    `Command failed: ${commandError.message}`,
+                    { commandId, error: commandError }
+                );
+                this._sessionManager.setLastError(sessionId, commandError);
+            }
+            return commandError;
+        }
+    }
+
+    /**
+     * Exponential backoff with jitter, so clients retrying together spread out.
+     */
+    private getRetryDelay(attempt: number): number {
+        const delay = Math.min(Config.getModelRetryBaseDelayMs() * 2 ** (attempt - 1), CommandQueue.MAX_RETRY_DELAY_MS);
+        return Math.round(delay * (0.75 + Math.random() * 0.5));
+    }
+
+    private waitForRetry(delayMs: number, cancellationToken: vscode.CancellationToken): Promise<void> {
+        return new Promise(resolve => {
+            if (cancellationToken.isCancellationRequested) {
+                resolve();
+                return;
+            }
+            const done = (): void => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve();
+            };
+            const timer = setTimeout(done, delayMs);
+            const listener = cancellationToken.onCancellationRequested(done);
+        });
+    }
+
+    /**
+     * Whether a retry can reuse the prompt its failed command left in the
+     * history: true when no user message was added since that command began.
+     */
+    private isPromptRecorded(command: QueuedCommand): boolean {
+        if (!command.retryOf) {
+            return false;
+        }
+
+        const messages = this._sessionManager.getMessages(command.sessionId);
+        const failedIndex = messages.findIndex(message => message.metadata?.commandId === command.retryOf);
+        if (failedIndex === -1) {
+            return false;
+        }
+
+        const lastUserIndex = messages.map(message => message.role).lastIndexOf(MessageRole.User);
+        return lastUserIndex !== -1 && lastUserIndex <= failedIndex;
+    }
+
+        private rememberFailure(command: QueuedCommand): void {
+        this._failed.set(command.commandId, command);
+        if (this._failed.size > CommandQueue.MAX_FAILED_COMMANDS) {
+            const oldest = this._failed.keys().next().value;
+            if (oldest !== undefined) {
+                this._failed.delete(oldest);
+            }
+        }
+    }
+
+    private settleStatus(sessionId: string, error: CommandError | null): void {
+        if (error) {
+            this._sessionManager.updateSessionStatus(sessionId, SessionStatus.Error, `Command failed: ${error.message}`);
+        } else if (this._sessionManager.getQuestions(sessionId).length > 0) {
+            this._sessionManager.updateSessionStatus(sessionId, SessionStatus.WaitingForInput, 'Command finished with questions pending');
+        } else {
+            this._sessionManager.updateSessionStatus(sessionId, SessionStatus.Idle, 'Command finished');
+        }
+    }
+
+    private getOrCreateQueue(sessionId: string): SessionQueue {
+        let queue = this._queues.get(sessionId);
+        if (!queue) {
+            queue = { running: null, pending: [] };
+            this._queues.set(sessionId, queue);
+        }
+        return queue;
+    }
+
+    private getPendingQueue(sessionId: string, commandId: string): SessionQueue {
+        this._sessionManager.getSession(sessionId);
+
+        const queue = this._queues.get(sessionId);
+        if (!queue || !queue.pending.some(command => command.commandId === commandId)) {
+            throw new ExtensionError(
+                'Command is not waiting in the queue',
+                ErrorCode.COMMAND_NOT_FOUND,
+                { sessionId, commandId }
+            );
+        }
+        return queue;
+    }
+
+    private publishQueue(sessionId: string): void {
+        if (this._sessionManager.hasSession(sessionId)) {
+            this._eventStream.publish(sessionId, SessionEventType.QueueChanged, { queue: this.getQueue(sessionId) });
+        }
+    }
+}
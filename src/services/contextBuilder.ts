@@ -1,9 +1,46 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
 import { CommandContext } from '../types/commands';
+import { Config } from '../config';
+import { GitignoreMatcher } from '../utils/gitignore';
+import { FileReference, FileReferenceParser } from '../utils/fileReference';
+import { PathPolicy } from '../utils/pathPolicy';
+import { logger } from '../utils/logger';
+import { GitService } from './gitService';
+import { GitChange, GitStatus } from '../types/git';
 
 export class ContextBuilder {
+    private static readonly MAX_SCANNED_FILES = 5000;
+    // Upper bound on the raw search, which can still include ignored files the globs could not exclude
+    private static readonly MAX_SEARCHED_FILES = 20000;
+    // Files modified among this many most recent ones get a recency boost
+    private static readonly RECENT_FILE_WINDOW = 20;
+    private static readonly MAX_EDITOR_LINES = 200;
+    private static readonly MAX_DIAGNOSTICS = 50;
+    private static readonly RECENT_COMMIT_COUNT = 10;
+    private static readonly DEFAULT_IGNORES = ['.git/', 'node_modules/'];
+    // Never searched, whatever the .gitignore rules say
+    private static readonly SCAN_EXCLUDES = ['**/node_modules/**', '**/.git/**'];
+    private static readonly MANIFEST_FILES = new Set([
+        'package.json',
+        'tsconfig.json',
+        'readme.md',
+        'cargo.toml',
+        'go.mod',
+        'pyproject.toml',
+        'requirements.txt',
+        'pom.xml',
+        'build.gradle',
+        'dockerfile',
+        'makefile'
+    ]);
+
+    private readonly _gitService: GitService;
+
+    constructor() {
+        this._gitService = new GitService();
+    }
+
     public async buildContext(
         repositoryPath: string,
         context?: CommandContext
@@ -18,6 +55,26 @@ export class ContextBuilder {
             contextText += await this.getFilesContext(repositoryPath, context.includeFiles);
         }
 
+        if (context?.includeOpenEditors) {
+            contextText += this.getOpenEditorsContext(repositoryPath);
+        }
+
+        if (context?.includeSelection) {
+            contextText += this.getSelectionContext(repositoryPath);
+        }
+
+        if (context?.includeDiagnostics) {
+            contextText += this.getDiagnosticsContext(repositoryPath);
+        }
+
+        if (context?.includeGitStatus) {
+            contextText += await this.getGitStatusContext(repositoryPath);
+        }
+
+        if (context?.includeGitDiff) {
+            contextText += await this.getGitDiffContext(repositoryPath);
+        }
+
         return contextText;
     }
 
@@ -26,8 +83,14 @@ export class ContextBuilder {
 
         try {
             const files = await this.getProjectFiles(repositoryPath);
+            const { tree, shown } = this.renderTree(files, Config.getWorkspaceContextMaxBytes());
+
             context += '### Project Structure:\n';
-            context += files.slice(0, 50).join('\n') + '\n\n';
+            context += tree;
+            if (shown < files.length) {
+                context += `(${files.length - shown} more files not shown)\n`;
+            }
+            context += '\n';
         } catch (error) {
             context += 'Unable to read workspace structure\n\n';
         }
@@ -35,56 +98,575 @@ export class ContextBuilder {
         return context;
     }
 
+    /**
+     * Shows the visible part of each editor open on a repository file, so
+     * the model sees what the user is looking at.
+     */
+    private getOpenEditorsContext(repositoryPath: string): string {
+        const editors = this.getRepositoryEditors(repositoryPath);
+        if (editors.length === 0) {
+            return '\n## Open Editors\nNo repository files are open\n\n';
+        }
+
+        let context = '\n## Open Editors\n\n';
+        for (const { editor, file } of editors) {
+            const isActive = editor === vscode.window.activeTextEditor;
+            for (const range of editor.visibleRanges) {
+                const startLine = range.start.line;
+                const endLine = Math.min(range.end.line, startLine + ContextBuilder.MAX_EDITOR_LINES - 1);
+                const text = editor.document.getText(
+                    new vscode.Range(startLine, 0, endLine, editor.document.lineAt(endLine).text.length)
+                );
+                context += `### ${this.formatLocation(file, startLine, endLine)}${isActive ? ' (active)' : ''}\n`;
+                context += `\`\`\`${editor.document.languageId}\n${text}\n\`\`\`\n\n`;
+            }
+        }
+
+        return context;
+    }
+
+    private getSelectionContext(repositoryPath: string): string {
+        let context = '\n## Selection\n\n';
+        let found = false;
+
+        for (const { editor, file } of this.getRepositoryEditors(repositoryPath)) {
+            for (const selection of editor.selections) {
+                found = true;
+                if (selection.isEmpty) {
+                    const line = selection.active.line;
+                    context += `### ${this.formatLocation(file, line, line)} (cursor)\n`;
+                    context += `\`\`\`${editor.document.languageId}\n${editor.document.lineAt(line).text}\n\`\`\`\n\n`;
+                } else {
+                    context += `### ${this.formatLocation(file, selection.start.line, selection.end.line)}\n`;
+                    context += `\`\`\`${editor.document.languageId}\n${editor.document.getText(selection)}\n\`\`\`\n\n`;
+                }
+            }
+        }
+
+        return found ? context : '\n## Selection\nNothing is selected\n\n';
+    }
+
+    /**
+     * Lists problems reported for repository files, most severe first.
+     */
+    private getDiagnosticsContext(repositoryPath: string): string {
+        const entries = vscode.languages.getDiagnostics()
+            .filter(([uri]) => uri.scheme === 'file')
+            .map(([uri, diagnostics]) => ({ file: this.toRelativePath(repositoryPath, uri), diagnostics }))
+            .filter(({ file }) => !this.isOutsideRepository(file) && PathPolicy.isAllowedFilePath(repositoryPath, file))
+            .flatMap(({ file, diagnostics }) => diagnostics.map(diagnostic => ({ file, diagnostic })))
+            .sort((a, b) =>
+                a.diagnostic.severity - b.diagnostic.severity ||
+                a.file.localeCompare(b.file) ||
+                a.diagnostic.range.start.line - b.diagnostic.range.start.line
+            );
+
+        if (entries.length === 0) {
+            return '\n## Diagnostics\nNo problems reported\n\n';
+        }
+
+        let context = '\n## Diagnostics\n\n';
+        for (const { file, diagnostic } of entries.slice(0, ContextBuilder.MAX_DIAGNOSTICS)) {
+            const { start, end } = diagnostic.range;
+            const code = diagnostic.code !== undefined ? ` ${this.formatDiagnosticCode(diagnostic.code)}` : '';
+            const source = diagnostic.source ? ` (${diagnostic.source}${code})` : '';
+            context += `- ${this.formatLocation(file, start.line, end.line)}:C${start.character + 1} `
+                + `[${vscode.DiagnosticSeverity[diagnostic.severity].toLowerCase()}] ${diagnostic.message}${source}\n`;
+        }
+        if (entries.length > ContextBuilder.MAX_DIAGNOSTICS) {
+            context += `(${entries.length - ContextBuilder.MAX_DIAGNOSTICS} more problems not shown)\n`;
+        }
+
+        return context + '\n';
+    }
+
+    private async getGitStatusContext(repositoryPath: string): Promise<string> {
+        const repository = await this._gitService.getRepository(repositoryPath);
+        if (!repository) {
+            return '\n## Git Status\nNot a git repository\n\n';
+        }
+
+        const { HEAD, indexChanges, workingTreeChanges } = repository.state;
+        let context = '\n## Git Status\n';
+
+        const branch = HEAD?.name ?? `detached at ${HEAD?.commit?.slice(0, 7) ?? 'unknown'}`;
+        context += `Branch: ${branch}`;
+        if (HEAD?.upstream) {
+            context += ` (tracking ${HEAD.upstream.remote}/${HEAD.upstream.name}, ahead ${HEAD.ahead ?? 0}, behind ${HEAD.behind ?? 0})`;
+        }
+        context += '\n\n';
+
+        const formatChanges = (title: string, changes: GitChange[]): string => {
+            const allowed = this.getAllowedChanges(repositoryPath, changes);
+            if (allowed.length === 0) {
+                return '';
+            }
+            const lines = allowed.map(change =>
+                `- ${this.describeGitStatus(change.status)}: ${this.toRelativePath(repositoryPath, change.uri)}`
+            );
+            return `### ${title}\n${lines.join('\n')}\n\n`;
+        };
+
+        const changes = formatChanges('Staged', indexChanges) + formatChanges('Unstaged', workingTreeChanges);
+        context += changes || 'Working tree clean\n\n';
+
+        try {
+            const commits = await repository.log({ maxEntries: ContextBuilder.RECENT_COMMIT_COUNT });
+            if (commits.length > 0) {
+                context += '### Recent Commits\n';
+                context += commits
+                    .map(commit => `- ${commit.hash.slice(0, 7)} ${commit.message.split('\n')[0]}`)
+                    .join('\n') + '\n\n';
+            }
+        } catch (error) {
+            // A repository without commits has no log
+            logger.debug('Failed to read git log', { error: (error as Error).message });
+        }
+
+        return context;
+    }
+
+    /**
+     * Adds the staged and unstaged diffs, sharing one byte budget with the
+     * staged diff first since that is what would be committed. Diffs are read
+     * file by file so files the path policy refuses never reach the prompt;
+     * unstaged files are diffed against HEAD.
+     */
+    private async getGitDiffContext(repositoryPath: string): Promise<string> {
+        const repository = await this._gitService.getRepository(repositoryPath);
+        if (!repository) {
+            return '\n## Git Diff\nNot a git repository\n\n';
+        }
+
+        let remaining = Config.getGitDiffMaxBytes();
+        let context = '\n## Git Diff\n\n';
+
+        const { indexChanges, workingTreeChanges } = repository.state;
+        const sections = [
+            { title: 'Staged', changes: indexChanges, read: (file: string) => repository.diffIndexWithHEAD(file) },
+            { title: 'Unstaged', changes: workingTreeChanges, read: (file: string) => repository.diffWithHEAD(file) }
+        ];
+
+        for (const { title, changes, read } of sections) {
+            try {
+                const diffs = await Promise.all(
+                    this.getAllowedChanges(repositoryPath, changes).map(change => read(change.uri.fsPath))
+                );
+                const diff = diffs.filter(fileDiff => fileDiff.trim()).join('');
+                if (!diff.trim()) {
+                    context += `### ${title}\nNo changes\n\n`;
+                    continue;
+                }
+
+                const { text, truncated } = this.truncateToBytes(diff, remaining);
+                if (!text) {
+                    context += `### ${title}\n(Omitted, diff size limit reached)\n\n`;
+                    continue;
+                }
+                remaining -= Buffer.byteLength(text);
+
+                context += `### ${title}\n\`\`\`diff\n${text}${text.endsWith('\n') ? '' : '\n'}\`\`\`\n`;
+                if (truncated) {
+                    context += `(Diff truncated to ${Config.getGitDiffMaxBytes()} bytes)\n`;
+                }
+                context += '\n';
+            } catch (error) {
+                context += `### ${title}\n(Unable to read diff)\n\n`;
+            }
+        }
+
+        return context;
+    }
+
+    /**
+     * Keeps .gitignored files out of the search so they don't use up the
+     * scan cap. An explicit exclude replaces `files.exclude` in `findFiles`,
+     * so its enabled patterns are carried over too.
+     */
+    private getScanExclude(repositoryPath: string, matcher: GitignoreMatcher): vscode.RelativePattern {
+        const filesExclude = vscode.workspace.getConfiguration('files', vscode.Uri.file(repositoryPath))
+            .get<Record<string, unknown>>('exclude', {});
+        const patterns = [
+            ...ContextBuilder.SCAN_EXCLUDES,
+            ...matcher.toExcludeGlobs(),
+            ...Object.entries(filesExclude).filter(([, enabled]) => enabled === true).map(([pattern]) => pattern)
+        ];
+        return new vscode.RelativePattern(repositoryPath, `{${patterns.join(',')}}`);
+    }
+
+    private getAllowedChanges(repositoryPath: string, changes: GitChange[]): GitChange[] {
+        return changes.filter(change => {
+            const file = this.toRelativePath(repositoryPath, change.uri);
+            return !this.isOutsideRepository(file) && PathPolicy.isAllowedFilePath(repositoryPath, file);
+        });
+    }
+
+    private describeGitStatus(status: GitStatus): string {
+        switch (status) {
+            case GitStatus.IndexAdded:
+            case GitStatus.IntentToAdd:
+                return 'added';
+            case GitStatus.IndexDeleted:
+            case GitStatus.Deleted:
+                return 'deleted';
+            case GitStatus.IndexRenamed:
+            case GitStatus.IntentToRename:
+                return 'renamed';
+            case GitStatus.IndexCopied:
+                return 'copied';
+            case GitStatus.Untracked:
+                return 'untracked';
+            case GitStatus.TypeChanged:
+                return 'type changed';
+            default:
+                return 'modified';
+        }
+    }
+
+    /**
+     * Cuts text to at most `maxBytes`, backing up to the last full line.
+     */
+    private truncateToBytes(text: string, maxBytes: number): { text: string; truncated: boolean } {
+        if (Buffer.byteLength(text) <= maxBytes) {
+            return { text, truncated: false };
+        }
+
+        const cut = Buffer.from(text).subarray(0, Math.max(0, maxBytes)).toString('utf-8');
+        const lastNewline = cut.lastIndexOf('\n');
+        return { text: lastNewline === -1 ? '' : cut.slice(0, lastNewline + 1), truncated: true };
+    }
+
+    private getRepositoryEditors(repositoryPath: string): { editor: vscode.TextEditor; file: string }[] {
+        return vscode.window.visibleTextEditors
+            .filter(editor => editor.document.uri.scheme === 'file')
+            .map(editor => ({ editor, file: this.toRelativePath(repositoryPath, editor.document.uri) }))
+            .filter(({ file }) => !this.isOutsideRepository(file) && PathPolicy.isAllowedFilePath(repositoryPath, file));
+    }
+
+    private formatLocation(file: string, startLine: number, endLine: number): string {
+        return startLine === endLine
+            ? `${file}#L${startLine + 1}`
+            : `${file}#L${startLine + 1}-L${endLine + 1}`;
+    }
+
+    private formatDiagnosticCode(code: vscode.Diagnostic['code']): string {
+        return typeof code === 'object' ? String(code.value) : String(code);
+    }
+
+    /**
+     * Adds `includeFiles` entries. Line ranges and symbol references only
+     * include the matching slice of the file.
+     */
     private async getFilesContext(repositoryPath: string, files: string[]): Promise<string> {
         let context = '\n## Relevant Files\n\n';
 
         for (const file of files) {
-            const filePath = path.isAbsolute(file) ? file : path.join(repositoryPath, file);
+            const reference = FileReferenceParser.parse(file);
+            const label = FileReferenceParser.format(reference);
 
+            let uri: vscode.Uri;
             try {
-                if (fs.existsSync(filePath)) {
-                    const content = fs.readFileSync(filePath, 'utf-8');
-                    context += `### ${file}\n\`\`\`\n${content}\n\`\`\`\n\n`;
+                uri = vscode.Uri.file(PathPolicy.resolveFilePath(repositoryPath, reference.path));
+            } catch (error) {
+                context += `### ${label}\n(Access denied: ${(error as Error).message})\n\n`;
+                continue;
+            }
+
+            if (!await this.exists(uri)) {
+                continue;
+            }
+
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const range = await this.resolveReferenceRange(document, reference);
+                if (!range) {
+                    context += `### ${label}\n(Symbol not found)\n\n`;
+                    continue;
                 }
+
+                const location = reference.symbol
+                    ? ` (${this.formatLocation(reference.path, range.start.line, range.end.line)})`
+                    : '';
+                context += `### ${label}${location}\n\`\`\`${document.languageId}\n${document.getText(range)}\n\`\`\`\n\n`;
             } catch (error) {
-                context += `### ${file}\n(Unable to read file)\n\n`;
+                context += `### ${label}\n(Unable to read file)\n\n`;
             }
         }
 
         return context;
     }
 
+    /**
+     * Returns the full-line range a reference points at, clamped to the
+     * document, or null when a referenced symbol does not exist.
+     */
+    private async resolveReferenceRange(
+        document: vscode.TextDocument,
+        reference: FileReference
+    ): Promise<vscode.Range | null> {
+        const lastLine = Math.max(0, document.lineCount - 1);
+        let startLine = 0;
+        let endLine = lastLine;
+
+        if (reference.symbol) {
+            const symbolRange = await this.findSymbolRange(document.uri, reference.symbol);
+            if (!symbolRange) {
+                return null;
+            }
+            startLine = symbolRange.start.line;
+            endLine = symbolRange.end.line;
+        } else if (reference.startLine !== undefined && reference.endLine !== undefined) {
+            startLine = Math.min(reference.startLine - 1, lastLine);
+            endLine = Math.min(reference.endLine - 1, lastLine);
+        }
+
+        return new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    }
+
+    /**
+     * Looks a symbol up through the document symbol provider. A dotted name
+     * such as `Class.method` walks down the symbol hierarchy; providers that
+     * only return flat symbol lists are matched on the last segment and the
+     * container name.
+     */
+    private async findSymbolRange(uri: vscode.Uri, symbolName: string): Promise<vscode.Range | null> {
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            uri
+        );
+        if (!symbols || symbols.length === 0) {
+            return null;
+        }
+
+        const segments = symbolName.split('.');
+
+        if (symbols[0] instanceof vscode.SymbolInformation) {
+            const name = segments[segments.length - 1];
+            const container = segments.length > 1 ? segments[segments.length - 2] : undefined;
+            const match = (symbols as vscode.SymbolInformation[]).find(symbol =>
+                symbol.name === name && (!container || symbol.containerName === container)
+            );
+            return match ? match.location.range : null;
+        }
+
+        let candidates = symbols as vscode.DocumentSymbol[];
+        let match: vscode.DocumentSymbol | undefined;
+        for (const segment of segments) {
+            match = this.findDocumentSymbol(candidates, segment, segment === segments[0]);
+            if (!match) {
+                return null;
+            }
+            candidates = match.children;
+        }
+
+        return match ? match.range : null;
+    }
+
+    /**
+     * Finds a symbol by name among `symbols`, searching nested children too
+     * when `deep` is set so a bare method name still resolves.
+     */
+    private findDocumentSymbol(
+        symbols: vscode.DocumentSymbol[],
+        name: string,
+        deep: boolean
+    ): vscode.DocumentSymbol | undefined {
+        const direct = symbols.find(symbol => symbol.name === name);
+        if (direct || !deep) {
+            return direct;
+        }
+
+        for (const symbol of symbols) {
+            const nested = this.findDocumentSymbol(symbol.children, name, true);
+            if (nested) {
+                return nested;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Lists repository files, honouring `files.exclude` and .gitignore,
+     * ordered so the most relevant files survive the size cap.
+     */
     private async getProjectFiles(repositoryPath: string): Promise<string[]> {
-        const files: string[] = [];
+        const matcher = await this.loadGitignore(repositoryPath);
+        const uris = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(repositoryPath, '**/*'),
+            this.getScanExclude(repositoryPath, matcher),
+            ContextBuilder.MAX_SEARCHED_FILES
+        );
+
+        // Cap only after filtering, so ignored files never push source files out
+        const files = uris
+            .map(uri => this.toRelativePath(repositoryPath, uri))
+            .filter(file => !matcher.isIgnored(file))
+            .slice(0, ContextBuilder.MAX_SCANNED_FILES);
+
+        const openFiles = this.getOpenFiles(repositoryPath);
+        const modified = await Promise.all(files.map(async file => {
+            try {
+                const stat = await vscode.workspace.fs.stat(vscode.Uri.file(path.join(repositoryPath, file)));
+                return stat.mtime;
+            } catch {
+                return 0;
+            }
+        }));
+
+        // Recency is ranked rather than compared by timestamp so one fresh file can't outweigh an open editor
+        const recencyRank = new Map(
+            files
+                .map((file, index) => ({ file, mtime: modified[index] }))
+                .sort((a, b) => b.mtime - a.mtime)
+                .map(({ file }, rank) => [file, rank])
+        );
 
-        const readDir = (dir: string, depth: number = 0): void => {
-            if (depth > 3) {
-                return;
+        const score = (file: string): number => {
+            let value = 0;
+            if (openFiles.has(file)) {
+                value += 100;
+            }
+            if (ContextBuilder.MANIFEST_FILES.has(path.posix.basename(file).toLowerCase())) {
+                value += 50;
             }
+            value += 30 * Math.max(0, 1 - (recencyRank.get(file) ?? files.length) / ContextBuilder.RECENT_FILE_WINDOW);
+            value -= file.split('/').length;
+            return value;
+        };
+
+        const scores = new Map(files.map(file => [file, score(file)]));
+        return files.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0) || a.localeCompare(b));
+    }
 
+    private async loadGitignore(repositoryPath: string): Promise<GitignoreMatcher> {
+        const matcher = new GitignoreMatcher();
+        matcher.add('', ContextBuilder.DEFAULT_IGNORES.join('\n'));
+
+        const ignoreFiles = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(repositoryPath, '**/.gitignore'),
+            new vscode.RelativePattern(repositoryPath, '**/node_modules/**')
+        );
+
+        // Parents first, so nested .gitignore files override them
+        const relativeIgnoreFiles = ignoreFiles
+            .map(uri => this.toRelativePath(repositoryPath, uri))
+            .sort((a, b) => a.split('/').length - b.split('/').length);
+
+        for (const file of relativeIgnoreFiles) {
             try {
-                const entries = fs.readdirSync(dir, { withFileTypes: true });
+                const content = await vscode.workspace.fs.readFile(vscode.Uri.file(path.join(repositoryPath, file)));
+                matcher.add(path.posix.dirname(file).replace(/^\.$/, ''), Buffer.from(content).toString('utf-8'));
+            } catch {
+                // An unreadable .gitignore just contributes no rules
+            }
+        }
 
-                for (const entry of entries) {
-                    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
-                        continue;
-                    }
+        return matcher;
+    }
+
+    private getOpenFiles(repositoryPath: string): Set<string> {
+        const uris = [
+            ...vscode.workspace.textDocuments.map(document => document.uri),
+            ...vscode.window.tabGroups.all
+                .flatMap(group => group.tabs)
+                .map(tab => tab.input instanceof vscode.TabInputText ? tab.input.uri : null)
+                .filter((uri): uri is vscode.Uri => uri !== null)
+        ];
+
+        return new Set(
+            uris
+                .filter(uri => uri.scheme === 'file')
+                .map(uri => this.toRelativePath(repositoryPath, uri))
+                .filter(file => !this.isOutsideRepository(file))
+        );
+    }
+
+    /**
+     * Renders the highest-ranked files as an indented tree, adding files in
+     * rank order until the next one would exceed `maxBytes`.
+     */
+    private renderTree(files: string[], maxBytes: number): { tree: string; shown: number } {
+        const rendered = new Set<string>();
+        const selected: string[] = [];
+        let bytes = 0;
 
-                    const fullPath = path.join(dir, entry.name);
-                    const relativePath = path.relative(repositoryPath, fullPath);
+        for (const file of files) {
+            const segments = file.split('/');
+            const missing: string[] = [];
+            let cost = 0;
 
-                    if (entry.isDirectory()) {
-                        readDir(fullPath, depth + 1);
-                    } else {
-                        files.push(relativePath);
-                    }
+            // Each file costs its own line plus a line for every directory not rendered yet
+            for (let depth = 0; depth < segments.length; depth++) {
+                const isDirectory = depth < segments.length - 1;
+                const key = segments.slice(0, depth + 1).join('/') + (isDirectory ? '/' : '');
+                if (!rendered.has(key)) {
+                    missing.push(key);
+                    cost += Buffer.byteLength(`${'  '.repeat(depth)}${segments[depth]}${isDirectory ? '/' : ''}\n`);
                 }
-            } catch (error) {
-                // Skip directories we can't read
+            }
+
+            if (bytes + cost > maxBytes) {
+                continue;
+            }
+
+            bytes += cost;
+            missing.forEach(key => rendered.add(key));
+            selected.push(file);
+        }
+
+        return { tree: this.formatTree(selected), shown: selected.length };
+    }
+
+    private formatTree(files: string[]): string {
+        interface TreeNode {
+            children: Map<string, TreeNode>;
+        }
+
+        const root: TreeNode = { children: new Map() };
+        for (const file of files) {
+            let node = root;
+            for (const segment of file.split('/')) {
+                let child = node.children.get(segment);
+                if (!child) {
+                    child = { children: new Map() };
+                    node.children.set(segment, child);
+                }
+                node = child;
+            }
+        }
+
+        const output: string[] = [];
+        const walk = (node: TreeNode, depth: number): void => {
+            // Directories before files, each alphabetically
+            const entries = Array.from(node.children.entries()).sort(([nameA, a], [nameB, b]) =>
+                (b.children.size > 0 ? 1 : 0) - (a.children.size > 0 ? 1 : 0) || nameA.localeCompare(nameB)
+            );
+            for (const [name, child] of entries) {
+                const isDirectory = child.children.size > 0;
+                output.push('  '.repeat(depth) + name + (isDirectory ? '/' : ''));
+                walk(child, depth + 1);
             }
         };
+        walk(root, 0);
+
+        return output.length > 0 ? output.join('\n') + '\n' : '';
+    }
+
+    private toRelativePath(repositoryPath: string, uri: vscode.Uri): string {
+        return path.relative(repositoryPath, uri.fsPath).split(path.sep).join('/');
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
 
-        readDir(repositoryPath);
-        return files;
+    private isOutsideRepository(relativePath: string): boolean {
+        return relativePath.startsWith('../') || relativePath === '..' || path.isAbsolute(relativePath);
     }
 }
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyScope, AuthenticatedDevice, CreatedDeviceKey, DeviceKey } from '../types/auth';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Per-device API keys kept in VS Code's SecretStorage. Only a hash of each
+ * token is stored, so a lost token can be revoked but not recovered.
+ */
+export class DeviceKeyRegistry {
+    private static readonly STORAGE_KEY = 'remoteVibe.deviceKeys';
+    private static readonly TOKEN_PREFIX = 'rvk_';
+    private static readonly LEGACY_DEVICE_ID = 'legacy-auth-token';
+
+    private readonly _secrets: vscode.SecretStorage;
+    private readonly _keys: Map<string, DeviceKey> = new Map();
+    private _loading: Promise<void> | null = null;
+
+    constructor(secrets: vscode.SecretStorage) {
+        this._secrets = secrets;
+    }
+
+    public load(): Promise<void> {
+        if (!this._loading) {
+            this._loading = this.readKeys();
+        }
+        return this._loading;
+    }
+
+    public getKeys(): DeviceKey[] {
+        return Array.from(this._keys.values());
+    }
+
+    public async createKey(name: string, scopes: ApiKeyScope[]): Promise<CreatedDeviceKey> {
+        await this.load();
+
+        const token = DeviceKeyRegistry.TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+        const device: DeviceKey = {
+            id: uuidv4(),
+            name,
+            scopes,
+            tokenHash: this.hash(token),
+            createdAt: new Date().toISOString()
+        };
+
+        this._keys.set(device.id, device);
+        await this.save();
+
+        logger.info('Device key created', { deviceId: device.id, name, scopes });
+
+        return { device, token };
+    }
+
+    public async revokeKey(deviceId: string): Promise<boolean> {
+        await this.load();
+
+        const device = this._keys.get(deviceId);
+        if (!device) {
+            return false;
+        }
+
+        this._keys.delete(deviceId);
+        await this.save();
+
+        logger.info('Device key revoked', { deviceId, name: device.name });
+
+        return true;
+    }
+
+    /**
+     * Returns the device a bearer token belongs to. The `remoteVibe.authToken`
+     * setting is still accepted as an admin key when it has been set
+     * explicitly, so existing clients keep working until they get a key.
+     */
+    public authenticate(token: string): AuthenticatedDevice | null {
+        const tokenHash = this.hash(token);
+        for (const device of this._keys.values()) {
+            if (this.hashesEqual(device.tokenHash, tokenHash)) {
+                return { id: device.id, name: device.name, scopes: device.scopes };
+            }
+        }
+
+        const legacyToken = Config.getLegacyAuthToken();
+        if (legacyToken && this.hashesEqual(this.hash(legacyToken), tokenHash)) {
+            return {
+                id: DeviceKeyRegistry.LEGACY_DEVICE_ID,
+                name: 'remoteVibe.authToken',
+                scopes: [ApiKeyScope.Admin]
+            };
+        }
+
+        return null;
+    }
+
+    private async readKeys(): Promise<void> {
+        try {
+            const stored = await this._secrets.get(DeviceKeyRegistry.STORAGE_KEY);
+            const keys: DeviceKey[] = stored ? JSON.parse(stored) : [];
+            for (const key of keys) {
+                this._keys.set(key.id, key);
+            }
+            logger.info('Device keys loaded', { count: keys.length });
+        } catch (error) {
+            logger.error('Failed to load device keys', error as Error);
+        }
+    }
+
+    private async save(): Promise<void> {
+        await this._secrets.store(DeviceKeyRegistry.STORAGE_KEY, JSON.stringify(this.getKeys()));
+    }
+
+    private hash(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    private hashesEqual(a: string, b: string): boolean {
+        return crypto.timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'));
+    }
+}
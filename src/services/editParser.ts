@@ -0,0 +1,128 @@
+import { FileEdit, FileEditKind, TextReplacement } from '../types/edits';
+
+/**
+ * Parses file edits out of model output. Edits are fenced blocks whose info
+ * string names the operation and a workspace-relative path:
+ *
+ *   ```file:src/app.ts      full new contents of the file
+ *   ```edit:src/app.ts      one or more SEARCH/REPLACE sections
+ *   ```delete:src/app.ts    empty block, removes the file
+ *
+ * The closing fence must use the same number of backticks as the opening
+ * one, so files that themselves contain ``` can be wrapped in ````.
+ */
+export class EditParser {
+    private static readonly OPENING_FENCE = /^(`{3,})(file|edit|delete):(.+?)\s*$/;
+    private static readonly SEARCH_MARKER = /^<{7} SEARCH\s*$/;
+    private static readonly DIVIDER_MARKER = /^={7}\s*$/;
+    private static readonly REPLACE_MARKER = /^>{7} REPLACE\s*$/;
+
+    public static readonly PROTOCOL_INSTRUCTIONS = `To change files in the workspace, use fenced blocks with a workspace-relative path:
+- Create or overwrite a file with its complete contents:
+\`\`\`file:path/to/file.ts
+...entire file...
+\`\`\`
+- Change part of an existing file with one or more SEARCH/REPLACE sections. SEARCH must match the current file exactly:
+\`\`\`edit:path/to/file.ts
+<<<<<<< SEARCH
+existing lines
+=======
+replacement lines
+>>>>>>> REPLACE
+\`\`\`
+- Delete a file:
+\`\`\`delete:path/to/file.ts
+\`\`\`
+If a file contains \`\`\` itself, open and close its block with four backticks instead.
+`;
+
+    public parse(text: string): FileEdit[] {
+        const edits: FileEdit[] = [];
+        const lines = text.split(/\r?\n/);
+
+        let i = 0;
+        while (i < lines.length) {
+            const opening = EditParser.OPENING_FENCE.exec(lines[i]);
+            if (!opening) {
+                i++;
+                continue;
+            }
+
+            const [, fence, operation, rawPath] = opening;
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && lines[i].trim() !== fence) {
+                body.push(lines[i]);
+                i++;
+            }
+
+            // An unterminated block means the output was cut off; don't apply half a file
+            if (i >= lines.length) {
+                break;
+            }
+            i++;
+
+            const edit = this.toEdit(operation, rawPath.trim(), body);
+            if (edit) {
+                edits.push(edit);
+            }
+        }
+
+        return edits;
+    }
+
+    private toEdit(operation: string, path: string, body: string[]): FileEdit | null {
+        switch (operation) {
+            case 'file':
+                return {
+                    kind: FileEditKind.Write,
+                    path,
+                    content: body.length > 0 ? body.join('\n') + '\n' : ''
+                };
+            case 'edit': {
+                const replacements = this.parseReplacements(body);
+                return replacements.length > 0
+                    ? { kind: FileEditKind.Replace, path, replacements }
+                    : null;
+            }
+            case 'delete':
+                return { kind: FileEditKind.Delete, path };
+            default:
+                return null;
+        }
+    }
+
+    private parseReplacements(body: string[]): TextReplacement[] {
+        const replacements: TextReplacement[] = [];
+
+        let i = 0;
+        while (i < body.length) {
+            if (!EditParser.SEARCH_MARKER.test(body[i])) {
+                i++;
+                continue;
+            }
+
+            const search: string[] = [];
+            const replace: string[] = [];
+            i++;
+            while (i < body.length && !EditParser.DIVIDER_MARKER.test(body[i])) {
+                search.push(body[i++]);
+            }
+            i++;
+            while (i < body.length && !EditParser.REPLACE_MARKER.test(body[i])) {
+                replace.push(body[i++]);
+            }
+            if (i >= body.length) {
+                break;
+            }
+            i++;
+
+            replacements.push({
+                search: search.join('\n'),
+                replace: replace.join('\n')
+            });
+        }
+
+        return replacements;
+    }
+}
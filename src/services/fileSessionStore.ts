@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Session } from '../types/session';
+import { ConversationMessage } from '../types/messages';
+import { PendingQuestion } from '../types/questions';
+import { ChangeSet } from '../types/edits';
+import { SessionSnapshot, SessionStore } from './sessionStore';
+import { logger } from '../utils/logger';
+
+type StoreRecord =
+    | { kind: 'session'; session: Session }
+    | { kind: 'message'; message: ConversationMessage }
+    | { kind: 'questions'; sessionId: string; questions: PendingQuestion[] }
+    | { kind: 'change'; changeSet: ChangeSet }
+    | { kind: 'delete'; sessionId: string };
+
+/**
+ * Append-only JSON-lines log of session changes. The log is replayed on
+ * load and then rewritten with just the current state to keep it compact.
+ * Long-running hosts also compact once enough has been appended since the
+ * last rewrite, so repeated change set updates cannot grow it unbounded.
+ */
+export class FileSessionStore implements SessionStore {
+    private static readonly FILE_NAME = 'sessions.jsonl';
+    private static readonly COMPACT_AFTER_RECORDS = 1000;
+    private static readonly COMPACT_AFTER_BYTES = 8 * 1024 * 1024;
+
+    private readonly _filePath: string;
+    private _appendedRecords = 0;
+    private _appendedBytes = 0;
+
+    constructor(storageDirectory: string) {
+        fs.mkdirSync(storageDirectory, { recursive: true });
+        this._filePath = path.join(storageDirectory, FileSessionStore.FILE_NAME);
+    }
+
+    public load(): SessionSnapshot {
+        const snapshot = this.replay();
+
+        this.compact(snapshot);
+
+        logger.info('Session store loaded', {
+            path: this._filePath,
+            sessionCount: snapshot.sessions.length
+        });
+
+        return snapshot;
+    }
+
+    public saveSession(session: Session): void {
+        this.append({ kind: 'session', session });
+    }
+
+    public appendMessage(message: ConversationMessage): void {
+        this.append({ kind: 'message', message });
+    }
+
+    public saveQuestions(sessionId: string, questions: PendingQuestion[]): void {
+        this.append({ kind: 'questions', sessionId, questions });
+    }
+
+    public saveChangeSet(changeSet: ChangeSet): void {
+        this.append({ kind: 'change', changeSet });
+    }
+
+    public deleteSession(sessionId: string): void {
+        this.append({ kind: 'delete', sessionId });
+    }
+
+    private replay(): SessionSnapshot {
+        const sessions = new Map<string, Session>();
+        const messages = new Map<string, ConversationMessage[]>();
+        const questions = new Map<string, PendingQuestion[]>();
+        const changeSets = new Map<string, ChangeSet[]>();
+
+        if (fs.existsSync(this._filePath)) {
+            const lines = fs.readFileSync(this._filePath, 'utf-8').split('\n');
+
+            lines.forEach((line, index) => {
+                if (line.trim().length === 0) {
+                    return;
+                }
+
+                let record: StoreRecord;
+                try {
+                    record = JSON.parse(line) as StoreRecord;
+                } catch (error) {
+                    // A crash mid-write can leave a truncated final line
+                    logger.warn('Skipping malformed session store record', { line: index + 1 });
+                    return;
+                }
+
+                switch (record.kind) {
+                    case 'session':
+                        sessions.set(record.session.id, record.session);
+                        break;
+                    case 'message': {
+                        const sessionMessages = messages.get(record.message.sessionId) || [];
+                        sessionMessages.push(record.message);
+                        messages.set(record.message.sessionId, sessionMessages);
+                        break;
+                    }
+                    case 'questions':
+                        questions.set(record.sessionId, record.questions);
+                        break;
+                    case 'change': {
+                        const sessionChangeSets = changeSets.get(record.changeSet.sessionId) || [];
+                        const index = sessionChangeSets.findIndex(c => c.id === record.changeSet.id);
+                        if (index === -1) {
+                            sessionChangeSets.push(record.changeSet);
+                        } else {
+                            sessionChangeSets[index] = record.changeSet;
+                        }
+                        changeSets.set(record.changeSet.sessionId, sessionChangeSets);
+                        break;
+                    }
+                    case 'delete':
+                        sessions.delete(record.sessionId);
+                        messages.delete(record.sessionId);
+                        questions.delete(record.sessionId);
+                        changeSets.delete(record.sessionId);
+                        break;
+                }
+            });
+        }
+
+        return {
+            sessions: Array.from(sessions.values()),
+            messages,
+            questions,
+            changeSets
+        };
+    }
+
+    private append(record: StoreRecord): void {
+        const line = JSON.stringify(record) + '\n';
+        try {
+            fs.appendFileSync(this._filePath, line, 'utf-8');
+        } catch (error) {
+            logger.error('Failed to write session store record', error as Error, { kind: record.kind });
+            return;
+        }
+
+        this._appendedRecords++;
+        this._appendedBytes += Buffer.byteLength(line, 'utf-8');
+
+        if (this._appendedRecords >= FileSessionStore.COMPACT_AFTER_RECORDS ||
+            this._appendedBytes >= FileSessionStore.COMPACT_AFTER_BYTES) {
+            this.compact(this.replay());
+        }
+    }
+
+    private compact(snapshot: SessionSnapshot): void {
+        const records: StoreRecord[] = [];
+
+        for (const session of snapshot.sessions) {
+            records.push({ kind: 'session', session });
+            for (const message of snapshot.messages.get(session.id) || []) {
+                records.push({ kind: 'message', message });
+            }
+            const sessionQuestions = snapshot.questions.get(session.id);
+            if (sessionQuestions && sessionQuestions.length > 0) {
+                records.push({ kind: 'questions', sessionId: session.id, questions: sessionQuestions });
+            }
+            for (const changeSet of snapshot.changeSets.get(session.id) || []) {
+                records.push({ kind: 'change', changeSet });
+            }
+        }
+
+        const tempPath = `${this._filePath}.tmp`;
+        try {
+            fs.writeFileSync(tempPath, records.map(record => JSON.stringify(record) + '\n').join(''), 'utf-8');
+            fs.renameSync(tempPath, this._filePath);
+            this._appendedRecords = 0;
+            this._appendedBytes = 0;
+        } catch (error) {
+            logger.error('Failed to compact session store', error as Error, { path: this._filePath });
+        }
+    }
+}
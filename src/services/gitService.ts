@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { GitAPI, GitExtension, GitRepository } from '../types/git';
+import { logger } from '../utils/logger';
+
+/**
+ * Thin access layer over the built-in `vscode.git` extension. Returns null
+ * instead of throwing when git is disabled or the path is not a repository,
+ * since git context is always optional.
+ */
+export class GitService {
+    private static readonly EXTENSION_ID = 'vscode.git';
+
+    private _api: GitAPI | null = null;
+
+    public async getRepository(repositoryPath: string): Promise<GitRepository | null> {
+        const api = await this.getAPI();
+        if (!api) {
+            return null;
+        }
+
+        return api.getRepository(vscode.Uri.file(repositoryPath));
+    }
+
+    private async getAPI(): Promise<GitAPI | null> {
+        if (this._api) {
+            return this._api;
+        }
+
+        const extension = vscode.extensions.getExtension<GitExtension>(GitService.EXTENSION_ID);
+        if (!extension) {
+            logger.warn('Git extension is not installed');
+            return null;
+        }
+
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            if (!gitExtension.enabled) {
+                logger.warn('Git extension is disabled');
+                return null;
+            }
+
+            this._api = gitExtension.getAPI(1);
+            return this._api;
+        } catch (error) {
+            logger.warn('Failed to activate git extension', { error: (error as Error).message });
+            return null;
+        }
+    }
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import { SessionManager } from './sessionManager';
+import { ConversationMessage, MessageRole } from '../types/messages';
+import { ErrorCode, ExtensionError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+interface SessionHistory {
+    summary: ConversationMessage | null;
+    turns: ConversationMessage[];
+}
+
+/**
+ * Fits the workspace context and conversation history into the model's input
+ * limit. Turns that no longer fit are folded into a running summary that is
+ * stored in the conversation as a System message, so later requests only
+ * replay the summary plus the turns after it.
+ */
+export class HistoryBudgeter {
+    private static readonly RESPONSE_RESERVE_RATIO = 0.25;
+    private static readonly MAX_RESPONSE_RESERVE = 4096;
+    private static readonly CONTEXT_BUDGET_RATIO = 0.5;
+    private static readonly CONTEXT_TRUNCATED_MARKER = '\n\n[Context truncated to fit the model input limit]\n';
+
+    private readonly _sessionManager: SessionManager;
+
+    constructor(sessionManager: SessionManager) {
+        this._sessionManager = sessionManager;
+    }
+
+    public async buildMessages(
+        model: vscode.LanguageModelChat,
+        sessionId: string,
+        systemPrompt: string,
+        contextText: string,
+        prompt: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelChatMessage[]> {
+        const budget = this.getInputBudget(model);
+
+        const fittedContext = await this.fitContext(
+            model,
+            contextText,
+            Math.floor(budget * HistoryBudgeter.CONTEXT_BUDGET_RATIO),
+            token
+        );
+        const systemMessage = vscode.LanguageModelChatMessage.User(systemPrompt + fittedContext);
+        const promptMessage = vscode.LanguageModelChatMessage.User(prompt);
+
+        const available = budget
+            - await model.countTokens(systemMessage, token)
+            - await model.countTokens(promptMessage, token);
+
+        // The context is already capped, so only the prompt itself can be this large
+        if (available < 0) {
+            throw new ExtensionError(
+                'Prompt is too long for the model input limit',
+                ErrorCode.INVALID_COMMAND,
+                { sessionId, budget, overflow: -available }
+            );
+        }
+
+        const history = this.getHistory(sessionId, prompt);
+        let summaryMessage = history.summary ? this.toSummaryChatMessage(history.summary.content) : null;
+        let summaryTokens = summaryMessage ? await model.countTokens(summaryMessage, token) : 0;
+        let keptTokens = 0;
+
+        const kept: { turn: ConversationMessage; tokens: number }[] = [];
+        for (let i = history.turns.length - 1; i >= 0; i--) {
+            const tokens = await model.countTokens(this.toChatMessage(history.turns[i]), token);
+            if (summaryTokens + keptTokens + tokens > available) {
+                break;
+            }
+            keptTokens += tokens;
+            kept.unshift({ turn: history.turns[i], tokens });
+        }
+
+        const dropped = history.turns.slice(0, history.turns.length - kept.length);
+
+        if (dropped.length > 0) {
+            // A longer summary can push more turns out, and those have to be in it too
+            let summary: string | null = null;
+            for (;;) {
+                summary = await this.summarize(model, history.summary, dropped, budget, token);
+                if (!summary) {
+                    break;
+                }
+
+                summaryTokens = await model.countTokens(this.toSummaryChatMessage(summary), token);
+                const droppedBefore = dropped.length;
+                while (summaryTokens + keptTokens > available) {
+                    const oldest = kept.shift();
+                    if (!oldest) {
+                        break;
+                    }
+                    keptTokens -= oldest.tokens;
+                    dropped.push(oldest.turn);
+                }
+                if (dropped.length === droppedBefore) {
+                    break;
+                }
+            }
+
+            if (summary) {
+                this._sessionManager.addMessage(sessionId, MessageRole.System, summary, {
+                    summarizedThroughMessageId: dropped[dropped.length - 1].id
+                });
+                summaryMessage = this.toSummaryChatMessage(summary);
+            } else {
+                logger.warn('Conversation turns dropped without a summary', {
+                    sessionId,
+                    droppedTurns: dropped.length,
+                    throughMessageId: dropped[dropped.length - 1].id
+                });
+            }
+
+            logger.info('Conversation history trimmed to fit model input limit', {
+                sessionId,
+                budget,
+                droppedTurns: dropped.length,
+                keptTurns: kept.length
+            });
+        }
+
+        return [
+            systemMessage,
+            ...(summaryMessage ? [summaryMessage] : []),
+            ...kept.map(({ turn }) => this.toChatMessage(turn)),
+            promptMessage
+        ];
+    }
+
+    private getInputBudget(model: vscode.LanguageModelChat): number {
+        const reserve = Math.min(
+            HistoryBudgeter.MAX_RESPONSE_RESERVE,
+            Math.floor(model.maxInputTokens * HistoryBudgeter.RESPONSE_RESERVE_RATIO)
+        );
+        return model.maxInputTokens - reserve;
+    }
+
+    private getHistory(sessionId: string, prompt: string): SessionHistory {
+        const messages = this._sessionManager.getMessages(sessionId);
+
+        let summary: ConversationMessage | null = null;
+        for (const message of messages) {
+            if (message.metadata?.summarizedThroughMessageId) {
+                summary = message;
+            }
+        }
+
+        const summarizedIndex = summary
+            ? messages.findIndex(m => m.id === summary?.metadata?.summarizedThroughMessageId)
+            : -1;
+
+        const turns = messages
+            .slice(summarizedIndex + 1)
+            .filter(m => m.role !== MessageRole.System);
+
+        // Routes record the prompt before the request is sent; it is appended separately
+        const last = turns[turns.length - 1];
+        if (last && last.role === MessageRole.User && last.content === prompt) {
+            turns.pop();
+        }
+
+        return { summary, turns };
+    }
+
+    private async fitContext(
+        model: vscode.LanguageModelChat,
+        contextText: string,
+        maxTokens: number,
+        token: vscode.CancellationToken
+    ): Promise<string> {
+        if (!contextText) {
+            return '';
+        }
+
+        let tokens = await model.countTokens(contextText, token);
+        if (tokens <= maxTokens) {
+            return contextText;
+        }
+
+        let fitted = contextText;
+        while (tokens > maxTokens && fitted.length > 0) {
+            fitted = fitted.slice(0, Math.floor(fitted.length * (maxTokens / tokens) * 0.95));
+            tokens = await model.countTokens(fitted + HistoryBudgeter.CONTEXT_TRUNCATED_MARKER, token);
+        }
+
+        logger.info('Workspace context truncated to fit model input limit', {
+            originalLength: contextText.length,
+            truncatedLength: fitted.length
+        });
+
+        return fitted + HistoryBudgeter.CONTEXT_TRUNCATED_MARKER;
+    }
+
+    private async summarize(
+        model: vscode.LanguageModelChat,
+        previousSummary: ConversationMessage | null,
+        turns: ConversationMessage[],
+        budget: number,
+        token: vscode.CancellationToken
+    ): Promise<string | null> {
+        const instructions = 'Summarize the following conversation between a user and an AI coding assistant. '
+            + 'Keep decisions, requirements, file names and open questions; drop pleasantries. '
+            + 'Reply with the summary only.\n\n';
+
+        let available = budget - await model.countTokens(instructions, token);
+        const lines: string[] = [];
+
+        // Keep the most recent turns if even the summary input would overflow
+        for (let i = turns.length - 1; i >= 0; i--) {
+            const line = `${turns[i].role === MessageRole.User ? 'User' : 'Assistant'}: ${turns[i].content}`;
+            const tokens = await model.countTokens(line, token);
+            if (tokens > available) {
+                break;
+            }
+            available -= tokens;
+            lines.unshift(line);
+        }
+
+        if (previousSummary) {
+            const line = `Summary of the conversation before this point: ${previousSummary.content}`;
+            if (await model.countTokens(line, token) <= available) {
+                lines.unshift(line);
+            }
+        }
+
+        try {
+            const response = await model.sendRequest(
+                [vscode.LanguageModelChatMessage.User(instructions + lines.join('\n\n'))],
+                {},
+                token
+            );
+
+            let summary = '';
+            for await (const chunk of response.text) {
+                summary += chunk;
+            }
+
+            return summary.trim() || null;
+        } catch (error) {
+            logger.warn('Failed to summarize conversation history, trimming instead', {
+                error: (error as Error).message
+            });
+            return null;
+        }
+    }
+
+    private toChatMessage(message: ConversationMessage): vscode.LanguageModelChatMessage {
+        return message.role === MessageRole.Assistant
+            ? vscode.LanguageModelChatMessage.Assistant(message.content)
+            : vscode.LanguageModelChatMessage.User(message.content);
+    }
+
+    private toSummaryChatMessage(summary: string): vscode.LanguageModelChatMessage {
+        return vscode.LanguageModelChatMessage.User(`Summary of the earlier conversation:\n${summary}`);
+    }
+}
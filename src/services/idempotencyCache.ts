@@ -0,0 +1,87 @@
+import * as crypto from 'crypto';
+import { Config } from '../config';
+
+export interface CachedResponse {
+    status: number;
+    // Serialized JSON, so later changes to the objects it came from can't leak into replays
+    body: string;
+}
+
+interface IdempotencyEntry {
+    requestHash: string;
+    createdAt: number;
+    // Null while the first request is still being handled
+    response: CachedResponse | null;
+}
+
+export enum IdempotencyState {
+    New = "new",
+    InProgress = "in_progress",
+    Completed = "completed",
+    Mismatch = "mismatch"
+}
+
+export type IdempotencyLookup =
+    | { state: IdempotencyState.New | IdempotencyState.InProgress | IdempotencyState.Mismatch }
+    | { state: IdempotencyState.Completed; response: CachedResponse };
+
+/**
+ * Remembers the first successful response for each idempotency key for
+ * `remoteVibe.idempotencyWindowSeconds`. Keys are scoped by the caller, so
+ * two devices can never see each other's responses.
+ */
+export class IdempotencyCache {
+    private readonly _entries: Map<string, IdempotencyEntry> = new Map();
+
+    /**
+     * Looks the key up and, if it is new, reserves it for this request.
+     */
+    public begin(scope: string, key: string, requestBody: unknown): IdempotencyLookup {
+        this.prune();
+
+        const cacheKey = `${scope}:${key}`;
+        const requestHash = this.hash(requestBody);
+        const entry = this._entries.get(cacheKey);
+
+        if (!entry) {
+            this._entries.set(cacheKey, { requestHash, createdAt: Date.now(), response: null });
+            return { state: IdempotencyState.New };
+        }
+        if (entry.requestHash !== requestHash) {
+            return { state: IdempotencyState.Mismatch };
+        }
+        if (!entry.response) {
+            return { state: IdempotencyState.InProgress };
+        }
+        return { state: IdempotencyState.Completed, response: entry.response };
+    }
+
+    public complete(scope: string, key: string, response: CachedResponse): void {
+        const entry = this._entries.get(`${scope}:${key}`);
+        if (entry) {
+            entry.response = response;
+        }
+    }
+
+    /**
+     * Forgets a reserved key so the request can be retried, e.g. after it failed.
+     */
+    public release(scope: string, key: string): void {
+        this._entries.delete(`${scope}:${key}`);
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - Config.getIdempotencyWindowSeconds() * 1000;
+        for (const [key, entry] of this._entries) {
+            // Entries are in insertion order, so everything after the first fresh one is fresh too
+            if (entry.createdAt >= cutoff) {
+                break;
+            }
+            this._entries.delete(key);
+        }
+    }
+
+    private hash(body: unknown): string {
+        return crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+    }
+}
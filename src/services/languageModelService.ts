@@ -1,60 +1,161 @@
 import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
+import { Config } from '../config';
 import { ErrorCode, ExtensionError } from '../types/errors';
 import { QuestionDetector } from './questionDetector';
 import { SessionManager } from './sessionManager';
+import { SessionEventStream } from './sessionEventStream';
+import { HistoryBudgeter } from './historyBudgeter';
+import { EditParser } from './editParser';
+import { ChangeSetService } from './changeSetService';
 import { MessageRole } from '../types/messages';
+import { PendingQuestion } from '../types/questions';
+import { SessionEventType } from '../types/events';
+import { ModelInfo, ModelSelector } from '../types/models';
 
 export interface LanguageModelResponse {
     text: string;
-    hasQuestion: boolean;
-    questionText?: string;
+    questions: PendingQuestion[];
+    cancelled?: boolean;
+    changeId?: string;
+}
+
+export interface SendRequestOptions {
+    commandId: string;
+    contextText?: string;
+    modelPreferences?: ModelSelector[];
+}
+
+interface ActiveCommand {
+    sessionId: string;
+    tokenSource: vscode.CancellationTokenSource;
 }
 
 export class LanguageModelService {
+    private static readonly DEFAULT_MODEL_SELECTOR: ModelSelector = {
+        vendor: 'copilot',
+        family: 'gpt-4o'
+    };
+
     private readonly _questionDetector: QuestionDetector;
+    private readonly _historyBudgeter: HistoryBudgeter;
+    private readonly _editParser: EditParser;
+    private readonly _changeSetService: ChangeSetService;
     private readonly _sessionManager: SessionManager;
+    private readonly _eventStream: SessionEventStream;
+    private readonly _activeCommands: Map<string, ActiveCommand> = new Map();
 
-    constructor(sessionManager: SessionManager) {
+    constructor(sessionManager: SessionManager, eventStream: SessionEventStream, changeSetService: ChangeSetService) {
         this._questionDetector = new QuestionDetector();
         this._sessionManager = sessionManager;
+        this._historyBudgeter = new HistoryBudgeter(sessionManager);
+        this._editParser = new EditParser();
+        this._changeSetService = changeSetService;
+        this._eventStream = eventStream;
+    }
+
+    public beginCommand(sessionId: string, commandId: string): void {
+        this._activeCommands.set(commandId, {
+            sessionId,
+            tokenSource: new vscode.CancellationTokenSource()
+        });
+    }
+
+    public endCommand(commandId: string): void {
+        const command = this._activeCommands.get(commandId);
+        if (command) {
+            command.tokenSource.dispose();
+            this._activeCommands.delete(commandId);
+        }
+    }
+
+    /**
+     * Cancels an in-flight command and returns the id of the session it belongs to.
+     */
+    public cancelCommand(commandId: string): string {
+        const command = this._activeCommands.get(commandId);
+        if (!command) {
+            throw new ExtensionError(
+                'Command not found or already finished',
+                ErrorCode.COMMAND_NOT_FOUND
+            );
+        }
+
+        command.tokenSource.cancel();
+        logger.info('Command cancelled', { sessionId: command.sessionId, commandId });
+
+        return command.sessionId;
+    }
+
+    /**
+     * The token that cancelling the command fires. Commands that aren't
+     * running get a token that never fires.
+     */
+    public getCancellationToken(commandId: string): vscode.CancellationToken {
+        const command = this._activeCommands.get(commandId);
+        return command ? command.tokenSource.token : new vscode.CancellationTokenSource().token;
+    }
+
+    public async listModels(): Promise<ModelInfo[]> {
+        const models = await vscode.lm.selectChatModels();
+        return models.map(model => this.toModelInfo(model));
     }
 
     public async sendRequest(
         sessionId: string,
         prompt: string,
-        contextText?: string
+        options: SendRequestOptions
     ): Promise<LanguageModelResponse> {
+        const { commandId, contextText, modelPreferences } = options;
+        const cancellationToken = this.getCancellationToken(commandId);
+        // After the reply is in the history, failures are not model errors and must not be retried
+        let responseSaved = false;
+
         try {
             logger.info('Sending request to language model', { sessionId, promptLength: prompt.length });
 
-            const models = await vscode.lm.selectChatModels({
-                vendor: 'copilot',
-                family: 'gpt-4o'
-            });
-
-            if (models.length === 0) {
-                throw new ExtensionError(
-                    'No language model available. Please ensure GitHub Copilot is enabled.',
-                    ErrorCode.LANGUAGE_MODEL_ERROR
-                );
-            }
-
-            const model = models[0];
+            const model = await this.selectModel([
+                ...(modelPreferences || []),
+                ...(this._sessionManager.getSession(sessionId).modelPreferences || [])
+            ]);
             logger.debug('Using language model', {
                 vendor: model.vendor,
                 family: model.family,
                 version: model.version
             });
 
-            const messages = this.buildMessages(sessionId, prompt, contextText);
-            const cancellationToken = new vscode.CancellationTokenSource().token;
+            const messages = await this._historyBudgeter.buildMessages(
+                model,
+                sessionId,
+                this.buildSystemPrompt(),
+                contextText || '',
+                prompt,
+                cancellationToken
+            );
+
+            if (cancellationToken.isCancellationRequested) {
+                return { text: '', questions: [], cancelled: true };
+            }
 
             const response = await model.sendRequest(messages, {}, cancellationToken);
 
+            const messageId = uuidv4();
             let fullText = '';
             for await (const chunk of response.text) {
+                if (cancellationToken.isCancellationRequested) {
+                    break;
+                }
                 fullText += chunk;
+                this._eventStream.publish(sessionId, SessionEventType.MessageDelta, {
+                    messageId,
+                    delta: chunk
+                });
+            }
+
+            if (cancellationToken.isCancellationRequested) {
+                logger.info('Language model request cancelled', { sessionId, commandId });
+                return { text: fullText, questions: [], cancelled: true };
             }
 
             logger.info('Language model response received', {
@@ -62,33 +163,73 @@ export class LanguageModelService {
                 responseLength: fullText.length
             });
 
-            this._sessionManager.addMessage(sessionId, MessageRole.Assistant, fullText);
+            this._sessionManager.addMessage(
+                sessionId,
+                MessageRole.Assistant,
+                fullText,
+                { commandId, model: this.toModelInfo(model) },
+                messageId
+            );
+            responseSaved = true;
 
-            const question = this._questionDetector.detect(fullText);
+            // Edits wait for approval; the change set is resolved through its Confirmation question
+            const edits = this._editParser.parse(fullText);
+            const changeSet = edits.length > 0
+                ? await this._changeSetService.propose(sessionId, commandId, messageId, edits)
+                : null;
+            const changeId = changeSet ? changeSet.id : undefined;
 
-            if (question) {
-                logger.info('Question detected in response', {
+            const threshold = Config.getQuestionConfidenceThreshold();
+            const questions = this._questionDetector.detect(fullText).filter(question => {
+                if ((question.confidence ?? 1) >= threshold) {
+                    return true;
+                }
+                logger.info('Ignoring low-confidence question', {
                     sessionId,
-                    questionType: question.questionType
+                    questionType: question.questionType,
+                    confidence: question.confidence
                 });
+                return false;
+            });
 
-                const savedQuestion = this._sessionManager.addQuestion(sessionId, question);
+            const savedQuestions = questions.map((question, order) =>
+                this._sessionManager.addQuestion(sessionId, {
+                    ...question,
+                    sourceMessageId: messageId,
+                    order
+                })
+            );
 
-                return {
-                    text: fullText,
-                    hasQuestion: true,
-                    questionText: savedQuestion.question
-                };
+            if (savedQuestions.length > 0) {
+                logger.info('Questions detected in response', {
+                    sessionId,
+                    questionCount: savedQuestions.length,
+                    questionTypes: savedQuestions.map(question => question.questionType)
+                });
             }
 
             return {
                 text: fullText,
-                hasQuestion: false
+                questions: savedQuestions,
+                changeId
             };
 
         } catch (error) {
+            if (cancellationToken.isCancellationRequested) {
+                logger.info('Language model request cancelled', { sessionId, commandId });
+                return { text: '', questions: [], cancelled: true };
+            }
+
             logger.error('Language model request failed', error as Error, { sessionId });
 
+            if (responseSaved && !(error instanceof ExtensionError)) {
+                throw new ExtensionError(
+                    'Failed to process language model response',
+                    ErrorCode.INTERNAL_ERROR,
+                    error
+                );
+            }
+
             if (error instanceof ExtensionError) {
                 throw error;
             }
@@ -101,31 +242,47 @@ export class LanguageModelService {
         }
     }
 
-    private buildMessages(
-        sessionId: string,
-        prompt: string,
-        contextText?: string
-    ): vscode.LanguageModelChatMessage[] {
-        const messages: vscode.LanguageModelChatMessage[] = [];
+    /**
+     * Returns the first available model matching the preferences in order,
+     * falling back to the default Copilot model and then to any chat model.
+     */
+    private async selectModel(preferences: ModelSelector[]): Promise<vscode.LanguageModelChat> {
+        for (const selector of [...preferences, LanguageModelService.DEFAULT_MODEL_SELECTOR]) {
+            const models = await vscode.lm.selectChatModels(selector);
+            if (models.length > 0) {
+                return models[0];
+            }
+            logger.debug('No language model matches selector', { ...selector });
+        }
 
-        const systemPrompt = `You are a helpful AI assistant working in a VS Code workspace. 
-Your task is to help users with coding tasks, answer questions, and make code changes when requested.
-When you need additional information from the user, ask clear questions.
-${contextText || ''}`;
+        const models = await vscode.lm.selectChatModels();
+        if (models.length === 0) {
+            throw new ExtensionError(
+                'No language model available. Please ensure GitHub Copilot is enabled.',
+                ErrorCode.LANGUAGE_MODEL_ERROR
+            );
+        }
 
-        messages.push(vscode.LanguageModelChatMessage.User(systemPrompt));
+        return models[0];
+    }
 
-        const conversationHistory = this._sessionManager.getMessages(sessionId);
-        for (const msg of conversationHistory) {
-            if (msg.role === MessageRole.User) {
-                messages.push(vscode.LanguageModelChatMessage.User(msg.content));
-            } else if (msg.role === MessageRole.Assistant) {
-                messages.push(vscode.LanguageModelChatMessage.Assistant(msg.content));
-            }
-        }
+    private toModelInfo(model: vscode.LanguageModelChat): ModelInfo {
+        return {
+            id: model.id,
+            name: model.name,
+            vendor: model.vendor,
+            family: model.family,
+            version: model.version,
+            maxInputTokens: model.maxInputTokens
+        };
+    }
 
-        messages.push(vscode.LanguageModelChatMessage.User(prompt));
+    private buildSystemPrompt(): string {
+        return `You are a helpful AI assistant working in a VS Code workspace. 
+Your task is to help users with coding tasks, answer questions, and make code changes when requested.
+When you need additional information from the user, ask clear questions.
 
-        return messages;
+${EditParser.PROTOCOL_INSTRUCTIONS}
+${QuestionDetector.PROTOCOL_INSTRUCTIONS}`;
     }
 }
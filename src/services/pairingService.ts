@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DeviceKeyRegistry } from './deviceKeyRegistry';
+import { ApiKeyScope, DeviceKey } from '../types/auth';
+import { PairingOffer, PairResponse } from '../types/pairing';
+import { ErrorCode, ExtensionError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * One-time pairing codes that a new device exchanges for a device key. Only
+ * one code is outstanding at a time; creating a new one invalidates the
+ * previous code, and every code expires after a few minutes.
+ */
+export class PairingService {
+    private static readonly CODE_TTL_MS = 5 * 60 * 1000;
+    private static readonly PAIRED_SCOPES = [ApiKeyScope.Read, ApiKeyScope.Command, ApiKeyScope.Respond];
+
+    private readonly _deviceKeyRegistry: DeviceKeyRegistry;
+    private readonly _onDidPair = new vscode.EventEmitter<DeviceKey>();
+    private _pending: { code: string; expiresAt: number } | null = null;
+
+    public readonly onDidPair = this._onDidPair.event;
+
+    constructor(deviceKeyRegistry: DeviceKeyRegistry) {
+        this._deviceKeyRegistry = deviceKeyRegistry;
+    }
+
+    public createOffer(): PairingOffer {
+        const code = crypto.randomBytes(18).toString('base64url');
+        const expiresAt = Date.now() + PairingService.CODE_TTL_MS;
+        this._pending = { code, expiresAt };
+
+        logger.info('Pairing code issued', { expiresAt: new Date(expiresAt).toISOString() });
+
+        return { code, expiresAt: new Date(expiresAt).toISOString() };
+    }
+
+    public cancelOffer(code: string): void {
+        if (this._pending && this._pending.code === code) {
+            this._pending = null;
+        }
+    }
+
+    public async redeem(code: string, deviceName: string): Promise<PairResponse> {
+        const pending = this._pending;
+        if (!pending || pending.expiresAt < Date.now() || !this.codesEqual(pending.code, code)) {
+            logger.warn('Rejected pairing attempt', { deviceName });
+            throw new ExtensionError(
+                'Invalid or expired pairing code',
+                ErrorCode.UNAUTHORIZED
+            );
+        }
+
+        // Consume before the async key creation so the code can't be redeemed twice
+        this._pending = null;
+
+        const { device, token } = await this._deviceKeyRegistry.createKey(deviceName, PairingService.PAIRED_SCOPES);
+        this._onDidPair.fire(device);
+
+        logger.info('Device paired', { deviceId: device.id, deviceName });
+
+        return {
+            success: true,
+            deviceId: device.id,
+            token,
+            scopes: device.scopes
+        };
+    }
+
+    public dispose(): void {
+        this._onDidPair.dispose();
+    }
+
+    private codesEqual(expected: string, actual: string): boolean {
+        const a = Buffer.from(expected);
+        const b = Buffer.from(actual);
+        return a.length === b.length && crypto.timingSafeEqual(a, b);
+    }
+}
@@ -1,49 +1,136 @@
 import { PendingQuestion, QuestionType } from '../types/questions';
+import { logger } from '../utils/logger';
 
+interface QuestionBlock {
+    type?: unknown;
+    prompt?: unknown;
+    options?: unknown;
+    default?: unknown;
+}
+
+/**
+ * Finds the questions a model response is waiting on. Responses are expected
+ * to carry fenced ```question blocks with a JSON object; when there are none,
+ * heuristic rules guess at a question and attach a confidence score so the
+ * caller can ignore weak guesses.
+ */
 export class QuestionDetector {
-    public detect(text: string): PendingQuestion | null {
-        const yesNoQuestion = this.detectYesNo(text);
-        if (yesNoQuestion) {
-            return yesNoQuestion;
+    private static readonly QUESTION_BLOCK = /^(`{3,})question\s*\n([\s\S]*?)\n\1\s*$/gm;
+    private static readonly STRUCTURED_CONFIDENCE = 1;
+
+    public static readonly PROTOCOL_INSTRUCTIONS = `When you need the user to answer before you can continue, end your reply with one question block per question:
+\`\`\`question
+{"type": "yes_no", "prompt": "Should I also update the tests?", "options": [], "default": "yes"}
+\`\`\`
+"type" is one of "yes_no", "multiple_choice", "free_text" or "confirmation". List the choices in "options" for multiple_choice. "default" is optional.
+Ask related questions together rather than one per reply. Do not add a question block when you are only explaining something or have finished the task.
+`;
+
+    /**
+     * Returns the questions in the order the model asked them. Every
+     * well-formed question block counts; the heuristics contribute at most
+     * one guess and only when there are no blocks.
+     */
+    public detect(text: string): PendingQuestion[] {
+        const structured = this.detectStructured(text);
+        if (structured.length > 0) {
+            return structured;
         }
 
-        const multipleChoice = this.detectMultipleChoice(text);
-        if (multipleChoice) {
-            return multipleChoice;
+        const candidates = [
+            this.detectYesNo(text),
+            this.detectMultipleChoice(text),
+            this.detectConfirmation(text)
+        ].filter((candidate): candidate is PendingQuestion => candidate !== null);
+
+        if (candidates.length === 0) {
+            return [];
         }
 
-        const confirmation = this.detectConfirmation(text);
-        if (confirmation) {
-            return confirmation;
+        return [candidates.reduce((best, candidate) =>
+            (candidate.confidence ?? 0) > (best.confidence ?? 0) ? candidate : best
+        )];
+    }
+
+    /**
+     * Parses question blocks. Malformed blocks are skipped so one bad block
+     * does not drop the others.
+     */
+    private detectStructured(text: string): PendingQuestion[] {
+        const questions: PendingQuestion[] = [];
+
+        for (const match of text.matchAll(QuestionDetector.QUESTION_BLOCK)) {
+            try {
+                const question = this.toQuestion(JSON.parse(match[2]) as QuestionBlock);
+                if (question) {
+                    questions.push(question);
+                }
+            } catch (error) {
+                logger.warn('Ignoring malformed question block', { error: (error as Error).message });
+            }
         }
 
-        return null;
+        return questions;
     }
 
-    private detectYesNo(text: string): PendingQuestion | null {
-        const lowerText = text.toLowerCase();
+    private toQuestion(block: QuestionBlock): PendingQuestion | null {
+        const questionType = Object.values(QuestionType).find(type => type === block.type);
+        if (!questionType || typeof block.prompt !== 'string' || block.prompt.trim().length === 0) {
+            return null;
+        }
+
+        const options = Array.isArray(block.options)
+            ? block.options.filter((option): option is string => typeof option === 'string')
+            : [];
+        if (questionType === QuestionType.MultipleChoice && options.length < 2) {
+            return null;
+        }
 
-        const patterns = [
-            /\b(yes|no)\b.*\?/i,
-            /\?\s*\(?(yes\/no|y\/n)\)?/i,
+        return {
+            id: '',
+            sessionId: '',
+            question: block.prompt.trim(),
+            questionType,
+            options: options.length > 0 ? options : undefined,
+            defaultAnswer: typeof block.default === 'string' && block.default.length > 0 ? block.default : undefined,
+            confidence: QuestionDetector.STRUCTURED_CONFIDENCE,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    private detectYesNo(text: string): PendingQuestion | null {
+        // Both answers must be offered in the question itself, not just mentioned before it
+        const explicitPatterns = [
+            /\byes\b[^?]*\bno\b[^?]*\?/i,
+            /\by\/n\b[^?]*\?/i,
+            /\?\s*\(?(yes\/no|y\/n)\)?/i
+        ];
+        const phrasePatterns = [
             /would you like/i,
             /do you want/i,
             /should i/i
         ];
 
-        for (const pattern of patterns) {
-            if (pattern.test(text)) {
-                return {
-                    id: '', // Will be set by SessionManager
-                    sessionId: '', // Will be set by SessionManager
-                    question: text.trim(),
-                    questionType: QuestionType.YesNo,
-                    timestamp: new Date().toISOString()
-                };
-            }
+        let confidence = 0;
+        if (this.getQuestionClauses(text).some(clause => explicitPatterns.some(pattern => pattern.test(clause)))) {
+            confidence = 0.8;
+        } else if (phrasePatterns.some(pattern => pattern.test(text))) {
+            const trailing = this.getTrailingText(text);
+            confidence = phrasePatterns.some(pattern => pattern.test(trailing)) && trailing.includes('?') ? 0.6 : 0.3;
         }
 
-        return null;
+        if (confidence === 0) {
+            return null;
+        }
+
+        return {
+            id: '', // Will be set by SessionManager
+            sessionId: '', // Will be set by SessionManager
+            question: text.trim(),
+            questionType: QuestionType.YesNo,
+            confidence,
+            timestamp: new Date().toISOString()
+        };
     }
 
     private detectMultipleChoice(text: string): PendingQuestion | null {
@@ -58,12 +145,16 @@ export class QuestionDetector {
                 opt.replace(/^[\d\.\)\-\*•]\s*/, '').trim()
             );
 
+            // A plain list is usually an explanation; only a question near the end makes it a choice
+            const confidence = this.getTrailingText(text).includes('?') ? 0.5 : 0.2;
+
             return {
                 id: '',
                 sessionId: '',
                 question: text.trim(),
                 questionType: QuestionType.MultipleChoice,
                 options,
+                confidence,
                 timestamp: new Date().toISOString()
             };
         }
@@ -86,6 +177,7 @@ export class QuestionDetector {
                     sessionId: '',
                     question: text.trim(),
                     questionType: QuestionType.Confirmation,
+                    confidence: this.getTrailingText(text).includes('?') ? 0.6 : 0.3,
                     timestamp: new Date().toISOString()
                 };
             }
@@ -93,4 +185,20 @@ export class QuestionDetector {
 
         return null;
     }
+
+    /**
+     * Returns each clause that ends in a question mark, plus whatever directly
+     * follows it on the same line, such as a "(y/n)" hint.
+     */
+    private getQuestionClauses(text: string): string[] {
+        return text.match(/[^.!?\n]*\?[^.!?\n]*/g) ?? [];
+    }
+
+    /**
+     * Returns the last two paragraphs, where a question the model is
+     * actually waiting on tends to be.
+     */
+    private getTrailingText(text: string): string {
+        return text.trim().split(/\n\s*\n/).slice(-2).join('\n\n');
+    }
 }
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { Config } from '../config';
+import { RateLimit, RateLimitDecision, RateLimitStats } from '../types/rateLimit';
+import { logger } from '../utils/logger';
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+interface QuotaState {
+    day: string;
+    counts: Record<string, number>;
+}
+
+/**
+ * In-memory token buckets keyed by device and bucket name, plus a daily
+ * command count per device. Limits are read from settings on every check so
+ * changes apply without restarting the server. Command counts are kept in
+ * `state` so a restart or window reload doesn't reset them; quotas reset at
+ * midnight UTC.
+ */
+export class RateLimiter {
+    private static readonly QUOTA_STATE_KEY = 'remoteVibe.commandQuota';
+
+    private readonly _buckets: Map<string, Bucket> = new Map();
+    private readonly _commandCounts: Map<string, number> = new Map();
+    private readonly _state: vscode.Memento;
+    private _quotaDay: string = RateLimiter.currentDay();
+    private _allowed = 0;
+    private _rateLimited = 0;
+    private _quotaRejections = 0;
+
+    constructor(state: vscode.Memento) {
+        this._state = state;
+
+        const saved = state.get<QuotaState>(RateLimiter.QUOTA_STATE_KEY);
+        if (saved && saved.day === this._quotaDay) {
+            for (const [deviceId, count] of Object.entries(saved.counts)) {
+                this._commandCounts.set(deviceId, count);
+            }
+        }
+    }
+
+    public consume(deviceId: string, bucketName: string): RateLimitDecision {
+        const limit = this.getLimit(bucketName);
+        if (!limit) {
+            return { allowed: true };
+        }
+
+        const now = Date.now();
+        const key = `${deviceId}:${bucketName}`;
+        const ratePerMs = limit.perMinute / 60000;
+        const bucket = this._buckets.get(key) ?? { tokens: limit.burst, updatedAt: now };
+
+        bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * ratePerMs);
+        bucket.updatedAt = now;
+        this._buckets.set(key, bucket);
+
+        if (bucket.tokens < 1) {
+            this._rateLimited++;
+            return {
+                allowed: false,
+                retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / ratePerMs / 1000))
+            };
+        }
+
+        bucket.tokens -= 1;
+        this._allowed++;
+        return { allowed: true };
+    }
+
+    /**
+     * Counts a command against the device's daily quota, refusing it once
+     * `remoteVibe.dailyCommandQuota` has been used. A quota of 0 disables it.
+     */
+    public consumeCommandQuota(deviceId: string): RateLimitDecision {
+        this.rollQuotaDay();
+
+        const quota = Config.getDailyCommandQuota();
+        const used = this._commandCounts.get(deviceId) ?? 0;
+
+        if (quota > 0 && used >= quota) {
+            this._quotaRejections++;
+            return {
+                allowed: false,
+                retryAfterSeconds: Math.max(1, Math.ceil((RateLimiter.nextQuotaReset().getTime() - Date.now()) / 1000))
+            };
+        }
+
+        this._commandCounts.set(deviceId, used + 1);
+        this.saveQuota();
+        return { allowed: true };
+    }
+
+    /**
+     * Gives back a command counted by `consumeCommandQuota`, for requests
+     * that were rejected before anything ran.
+     */
+    public refundCommandQuota(deviceId: string): void {
+        this.rollQuotaDay();
+
+        const used = this._commandCounts.get(deviceId) ?? 0;
+        if (used > 0) {
+            this._commandCounts.set(deviceId, used - 1);
+            this.saveQuota();
+        }
+    }
+
+    public getStats(deviceId: string): RateLimitStats {
+        this.rollQuotaDay();
+
+        return {
+            allowedRequests: this._allowed,
+            rateLimitedRequests: this._rateLimited,
+            quotaRejections: this._quotaRejections,
+            dailyCommandQuota: Config.getDailyCommandQuota(),
+            commandsToday: this._commandCounts.get(deviceId) ?? 0,
+            quotaResetsAt: RateLimiter.nextQuotaReset().toISOString()
+        };
+    }
+
+    private getLimit(bucketName: string): RateLimit | null {
+        const limit = Config.getRateLimits()[bucketName];
+        if (!limit || limit.burst <= 0 || limit.perMinute <= 0) {
+            return null;
+        }
+        return limit;
+    }
+
+    private rollQuotaDay(): void {
+        const today = RateLimiter.currentDay();
+        if (today !== this._quotaDay) {
+            this._quotaDay = today;
+            this._commandCounts.clear();
+            this.saveQuota();
+        }
+    }
+
+    private saveQuota(): void {
+        const state: QuotaState = { day: this._quotaDay, counts: Object.fromEntries(this._commandCounts) };
+        this._state.update(RateLimiter.QUOTA_STATE_KEY, state).then(undefined, error => {
+            logger.error('Failed to save command quota', error);
+        });
+    }
+
+    private static currentDay(): string {
+        return new Date().toISOString().slice(0, 10);
+    }
+
+    private static nextQuotaReset(): Date {
+        const reset = new Date();
+        reset.setUTCHours(24, 0, 0, 0);
+        return reset;
+    }
+}
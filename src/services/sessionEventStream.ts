@@ -0,0 +1,105 @@
+import { SessionEvent, SessionEventPayload, SessionEventType, StreamResetReason } from '../types/events';
+import { logger } from '../utils/logger';
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+export class SessionEventStream {
+    // Enough to replay a long streamed answer to a client that reconnects mid-response
+    private static readonly MAX_BUFFERED_EVENTS = 2000;
+
+    private readonly _events: Map<string, SessionEvent[]> = new Map();
+    private readonly _listeners: Map<string, Set<SessionEventListener>> = new Map();
+    // Id of the newest event dropped from each session's buffer
+    private readonly _droppedThrough: Map<string, number> = new Map();
+    private _nextEventId = 1;
+
+    public publish(sessionId: string, type: SessionEventType, data: SessionEventPayload): SessionEvent {
+        const event: SessionEvent = {
+            id: this._nextEventId++,
+            sessionId,
+            type,
+            data,
+            timestamp: new Date().toISOString()
+        };
+
+        const events = this._events.get(sessionId) || [];
+        events.push(event);
+        if (events.length > SessionEventStream.MAX_BUFFERED_EVENTS) {
+            const dropped = events.splice(0, events.length - SessionEventStream.MAX_BUFFERED_EVENTS);
+            this._droppedThrough.set(sessionId, dropped[dropped.length - 1].id);
+        }
+        this._events.set(sessionId, events);
+
+        const listeners = this._listeners.get(sessionId);
+        if (listeners) {
+            for (const listener of listeners) {
+                try {
+                    listener(event);
+                } catch (error) {
+                    logger.error('Session event listener failed', error as Error, { sessionId, type });
+                }
+            }
+        }
+
+        return event;
+    }
+
+    /**
+     * Events to replay to a client resuming from `lastEventId`. When some of
+     * them can no longer be replayed, a `stream.reset` event comes first so
+     * the client knows to re-fetch the session instead of trusting the stream.
+     */
+    public getEventsSince(sessionId: string, lastEventId: number | null): SessionEvent[] {
+        const events = this._events.get(sessionId) || [];
+
+        if (lastEventId === null) {
+            return [...events];
+        }
+
+        // An id newer than anything we issued means the client is resuming against a
+        // previous server instance, so its cursor is meaningless and it gets everything.
+        if (lastEventId >= this._nextEventId) {
+            return [this.createResetEvent(sessionId, 0, StreamResetReason.ServerRestarted), ...events];
+        }
+
+        const missed = events.filter(event => event.id > lastEventId);
+        const droppedThrough = this._droppedThrough.get(sessionId);
+        if (droppedThrough !== undefined && lastEventId < droppedThrough) {
+            return [this.createResetEvent(sessionId, droppedThrough, StreamResetReason.EventsDropped), ...missed];
+        }
+        return missed;
+    }
+
+    public subscribe(sessionId: string, listener: SessionEventListener): () => void {
+        const listeners = this._listeners.get(sessionId) || new Set<SessionEventListener>();
+        listeners.add(listener);
+        this._listeners.set(sessionId, listeners);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) {
+                this._listeners.delete(sessionId);
+            }
+        };
+    }
+
+    public clear(sessionId: string): void {
+        this._events.delete(sessionId);
+        this._listeners.delete(sessionId);
+        this._droppedThrough.delete(sessionId);
+    }
+
+    /**
+     * Reset events are sent only to the resuming client and never buffered.
+     * Their id sorts before the replayed events so the client's cursor stays valid.
+     */
+    private createResetEvent(sessionId: string, id: number, reason: StreamResetReason): SessionEvent {
+        return {
+            id,
+            sessionId,
+            type: SessionEventType.StreamReset,
+            data: { reason },
+            timestamp: new Date().toISOString()
+        };
+    }
+}
@@ -1,43 +1,152 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Session, SessionStatus } from '../types/session';
-import { ConversationMessage, MessageRole } from '../types/messages';
+import { Session, SessionCompletionReason, SessionLineage, SessionStatus, SessionTransition } from '../types/session';
+import { ConversationMessage, MessageMetadata, MessageRole } from '../types/messages';
 import { PendingQuestion } from '../types/questions';
+import { ChangeSet } from '../types/edits';
+import { CommandError } from '../types/commands';
 import { ErrorCode, ExtensionError } from '../types/errors';
+import { SessionEventType } from '../types/events';
+import { ModelSelector } from '../types/models';
+import { SessionEventStream } from './sessionEventStream';
+import { InMemorySessionStore, SessionStore } from './sessionStore';
+import { SessionStateMachine } from '../utils/sessionStateMachine';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
 
 export class SessionManager {
+    private static readonly SWEEP_INTERVAL_MS = 60 * 1000;
+    private static readonly MAX_TRANSITIONS = 100;
+
     private readonly _sessions: Map<string, Session> = new Map();
     private readonly _messages: Map<string, ConversationMessage[]> = new Map();
     private readonly _questions: Map<string, PendingQuestion[]> = new Map();
-    private _activeSessionId: string | null = null;
-
-    public createSession(repositoryPath: string): Session {
-        if (this._activeSessionId) {
-            const activeSession = this._sessions.get(this._activeSessionId);
-            if (activeSession && activeSession.status !== SessionStatus.Completed) {
-                throw new ExtensionError(
-                    'A session is already active',
-                    ErrorCode.SESSION_ALREADY_EXISTS
+    private readonly _changeSets: Map<string, ChangeSet[]> = new Map();
+    private readonly _eventStream: SessionEventStream;
+    private readonly _store: SessionStore;
+    private _sweepTimer: NodeJS.Timeout | null = null;
+
+    constructor(eventStream: SessionEventStream, store: SessionStore = new InMemorySessionStore()) {
+        this._eventStream = eventStream;
+        this._store = store;
+    }
+
+    /**
+     * Loads persisted sessions from the store. Sessions that were still
+     * processing when the extension host went away can never finish, so
+     * they are flagged as interrupted and moved to the error state.
+     */
+    public restore(): void {
+        const snapshot = this._store.load();
+
+        for (const session of snapshot.sessions) {
+            // Sessions saved before transitions were recorded have none
+            session.transitions = session.transitions || [];
+            this._sessions.set(session.id, session);
+            this._messages.set(session.id, snapshot.messages.get(session.id) || []);
+            this._questions.set(session.id, snapshot.questions.get(session.id) || []);
+            this._changeSets.set(session.id, snapshot.changeSets.get(session.id) || []);
+
+            if (session.status === SessionStatus.Processing) {
+                session.interruptedAt = new Date().toISOString();
+                this.addMessage(
+                    session.id,
+                    MessageRole.System,
+                    'Processing was interrupted because the extension restarted. Send the command again to continue.'
                 );
+                this.updateSessionStatus(session.id, SessionStatus.Error, 'Interrupted by an extension restart');
+
+                logger.warn('Session interrupted by restart', { sessionId: session.id });
             }
         }
 
+        logger.info('Sessions restored', { sessionCount: snapshot.sessions.length });
+    }
+
+    public createSession(repositoryPath: string, modelPreferences?: ModelSelector[], lineage?: SessionLineage): Session {
+        const maxSessions = Config.getMaxConcurrentSessions();
+        const openSessions = this.getOpenSessions();
+        if (openSessions.length >= maxSessions) {
+            throw new ExtensionError(
+                `Maximum number of concurrent sessions (${maxSessions}) reached`,
+                ErrorCode.SESSION_LIMIT_REACHED,
+                { maxSessions, openSessions: openSessions.map(session => session.id) }
+            );
+        }
+
+        const startedAt = new Date().toISOString();
         const session: Session = {
             id: uuidv4(),
             repositoryPath,
             status: SessionStatus.Idle,
-            startedAt: new Date().toISOString(),
+            startedAt,
             lastActivityAt: null,
-            currentCommand: null
+            currentCommand: null,
+            ...lineage,
+            modelPreferences,
+            transitions: [{
+                from: null,
+                to: SessionStatus.Idle,
+                reason: lineage ? `Forked from session ${lineage.parentSessionId}` : 'Session started',
+                timestamp: startedAt
+            }]
         };
 
         this._sessions.set(session.id, session);
         this._messages.set(session.id, []);
         this._questions.set(session.id, []);
-        this._activeSessionId = session.id;
+        this._changeSets.set(session.id, []);
+        this._store.saveSession(session);
 
         return session;
     }
 
+    /**
+     * Starts a new session on the same repository whose history is a copy of
+     * this session's up to and including `messageId`. Pending questions and
+     * change sets stay with the original session.
+     */
+    public forkSession(sessionId: string, messageId: string): Session {
+        const parent = this.getSession(sessionId);
+        const messages = this.getMessages(sessionId);
+        const index = messages.findIndex(message => message.id === messageId);
+        if (index === -1) {
+            throw new ExtensionError(
+                'Message not found in session',
+                ErrorCode.MESSAGE_NOT_FOUND,
+                { sessionId, messageId }
+            );
+        }
+
+        const fork = this.createSession(parent.repositoryPath, parent.modelPreferences, {
+            parentSessionId: parent.id,
+            forkedFromMessageId: messageId
+        });
+
+        // Copies get new ids, so summaries have to point at the copied messages
+        const copiedIds = new Map<string, string>();
+        const copies = messages.slice(0, index + 1).map(message => {
+            const copy: ConversationMessage = {
+                ...message,
+                id: uuidv4(),
+                sessionId: fork.id,
+                metadata: message.metadata && { ...message.metadata }
+            };
+            copiedIds.set(message.id, copy.id);
+
+            const summarized = copy.metadata?.summarizedThroughMessageId;
+            if (copy.metadata && summarized) {
+                copy.metadata.summarizedThroughMessageId = copiedIds.get(summarized);
+            }
+            return copy;
+        });
+
+        this._messages.set(fork.id, copies);
+        copies.forEach(copy => this._store.appendMessage(copy));
+
+        logger.info('Session forked', { sessionId, forkId: fork.id, messageId, messageCount: copies.length });
+        return fork;
+    }
+
     public getSession(sessionId: string): Session {
         const session = this._sessions.get(sessionId);
         if (!session) {
@@ -49,19 +158,171 @@ export class SessionManager {
         return session;
     }
 
-    public getActiveSession(): Session | null {
-        if (!this._activeSessionId) {
-            return null;
+    public hasSession(sessionId: string): boolean {
+        return this._sessions.has(sessionId);
+    }
+
+    /**
+     * Whether the session exists and is neither completed nor archived.
+     */
+    public isOpen(sessionId: string): boolean {
+        const session = this._sessions.get(sessionId);
+        return session !== undefined && !this.isClosed(session);
+    }
+
+    public getSessions(): Session[] {
+        return Array.from(this._sessions.values());
+    }
+
+    /**
+     * Sessions that count towards the concurrency limit.
+     */
+    public getOpenSessions(): Session[] {
+        return this.getSessions().filter(session => !this.isClosed(session));
+    }
+
+    /**
+     * Throws unless the session can take new work. Completed and archived
+     * sessions have to be resumed first.
+     */
+    public assertOpen(sessionId: string): Session {
+        const session = this.getSession(sessionId);
+        if (!this.isClosed(session)) {
+            return session;
         }
-        return this._sessions.get(this._activeSessionId) || null;
+
+        if (session.completionReason === SessionCompletionReason.IdleTimeout && session.status === SessionStatus.Completed) {
+            throw new ExtensionError(
+                'Session was completed after being idle; resume it to continue',
+                ErrorCode.SESSION_TIMEOUT,
+                { sessionId, completedAt: session.completedAt }
+            );
+        }
+        throw new ExtensionError(
+            `Session is ${session.status}; resume it to continue`,
+            ErrorCode.INVALID_SESSION_STATE,
+            { sessionId, status: session.status }
+        );
+    }
+
+    /**
+     * Moves the session to `status` and records why. Throws
+     * INVALID_SESSION_STATE if the state machine doesn't allow the move;
+     * setting the current status again only refreshes the session.
+     */
+    public updateSessionStatus(sessionId: string, status: SessionStatus, reason: string, currentCommand?: string): void {
+        this.transition(this.getSession(sessionId), status, reason, currentCommand);
     }
 
-    public updateSessionStatus(sessionId: string, status: SessionStatus, currentCommand?: string): void {
+    public getTransitions(sessionId: string): SessionTransition[] {
+        return this.getSession(sessionId).transitions;
+    }
+
+    /**
+     * Records why the session's last command failed, or clears it with null.
+     */
+    public setLastError(sessionId: string, error: CommandError | null): void {
         const session = this.getSession(sessionId);
-        session.status = status;
-        session.lastActivityAt = new Date().toISOString();
-        if (currentCommand !== undefined) {
-            session.currentCommand = currentCommand;
+        if (!error && !session.lastError) {
+            return;
+        }
+
+        if (error) {
+            session.lastError = error;
+        } else {
+            delete session.lastError;
+        }
+        this._store.saveSession(session);
+    }
+
+    /**
+     * Ends a session that isn't running anything. Questions still waiting
+     * for an answer expire with it.
+     */
+    public completeSession(
+        sessionId: string,
+        reason: SessionCompletionReason = SessionCompletionReason.Requested
+    ): Session {
+        const session = this.getSession(sessionId);
+        SessionStateMachine.assertTransition(session, SessionStatus.Completed);
+
+        this.expireQuestions(sessionId, this.getQuestions(sessionId));
+        session.completedAt = new Date().toISOString();
+        session.completionReason = reason;
+        this.transition(
+            session,
+            SessionStatus.Completed,
+            reason === SessionCompletionReason.IdleTimeout ? 'Idle timeout' : 'Completed on request',
+            null
+        );
+
+        logger.info('Session completed', { sessionId, reason });
+        return session;
+    }
+
+    /**
+     * Hides a session from the session list. Open sessions are completed on
+     * the way.
+     */
+    public archiveSession(sessionId: string): Session {
+        const session = this.getSession(sessionId);
+        if (session.status !== SessionStatus.Completed) {
+            this.completeSession(sessionId);
+        }
+        session.archivedAt = new Date().toISOString();
+        this.transition(session, SessionStatus.Archived, 'Archived on request');
+
+        logger.info('Session archived', { sessionId });
+        return session;
+    }
+
+    /**
+     * Reopens a completed or archived session as idle, with its history intact.
+     */
+    public resumeSession(sessionId: string): Session {
+        const session = this.getSession(sessionId);
+        if (!this.isClosed(session)) {
+            throw new ExtensionError(
+                `Cannot resume a session that is ${session.status}`,
+                ErrorCode.INVALID_SESSION_STATE,
+                { sessionId, status: session.status }
+            );
+        }
+
+        const maxSessions = Config.getMaxConcurrentSessions();
+        const openSessions = this.getOpenSessions();
+        if (openSessions.length >= maxSessions) {
+            throw new ExtensionError(
+                `Maximum number of concurrent sessions (${maxSessions}) reached`,
+                ErrorCode.SESSION_LIMIT_REACHED,
+                { maxSessions, openSessions: openSessions.map(open => open.id) }
+            );
+        }
+
+        delete session.completedAt;
+        delete session.completionReason;
+        delete session.archivedAt;
+        this.transition(session, SessionStatus.Idle, 'Resumed on request');
+
+        logger.info('Session resumed', { sessionId });
+        return session;
+    }
+
+    /**
+     * Periodically expires unanswered questions and completes sessions that
+     * have been idle for longer than the configured timeouts.
+     */
+    public startIdleSweeper(): void {
+        if (this._sweepTimer) {
+            return;
+        }
+        this._sweepTimer = setInterval(() => this.sweepIdle(), SessionManager.SWEEP_INTERVAL_MS);
+    }
+
+    public dispose(): void {
+        if (this._sweepTimer) {
+            clearInterval(this._sweepTimer);
+            this._sweepTimer = null;
         }
     }
 
@@ -69,12 +330,13 @@ export class SessionManager {
         sessionId: string,
         role: MessageRole,
         content: string,
-        metadata?: { filesChanged?: string[]; commandId?: string }
+        metadata?: MessageMetadata,
+        messageId: string = uuidv4()
     ): ConversationMessage {
         const session = this.getSession(sessionId);
 
         const message: ConversationMessage = {
-            id: uuidv4(),
+            id: messageId,
             sessionId,
             role,
             content,
@@ -87,6 +349,10 @@ export class SessionManager {
         this._messages.set(sessionId, messages);
 
         session.lastActivityAt = new Date().toISOString();
+        this._store.appendMessage(message);
+        this._store.saveSession(session);
+
+        this._eventStream.publish(sessionId, SessionEventType.MessageCompleted, { message });
 
         return message;
     }
@@ -96,6 +362,25 @@ export class SessionManager {
         return this._messages.get(sessionId) || [];
     }
 
+    /**
+     * The last message recorded for a command: its reply, or the prompt if
+     * nothing came back.
+     */
+    public getLastCommandMessage(sessionId: string, commandId: string): ConversationMessage {
+        const messages = this.getMessages(sessionId);
+        for (let i = messages.length - 1; i >= 0; i--) {
+            if (messages[i].metadata?.commandId === commandId) {
+                return messages[i];
+            }
+        }
+
+        throw new ExtensionError(
+            'No messages recorded for command',
+            ErrorCode.MESSAGE_NOT_FOUND,
+            { sessionId, commandId }
+        );
+    }
+
     public addQuestion(sessionId: string, question: PendingQuestion): PendingQuestion {
         this.getSession(sessionId);
 
@@ -108,8 +393,10 @@ export class SessionManager {
         const questions = this._questions.get(sessionId) || [];
         questions.push(questionWithIds);
         this._questions.set(sessionId, questions);
+        this._store.saveQuestions(sessionId, questions);
 
-        this.updateSessionStatus(sessionId, SessionStatus.WaitingForInput);
+        this._eventStream.publish(sessionId, SessionEventType.QuestionPending, { question: questionWithIds });
+        this.updateSessionStatus(sessionId, SessionStatus.WaitingForInput, 'Question asked');
 
         return questionWithIds;
     }
@@ -119,20 +406,35 @@ export class SessionManager {
         return this._questions.get(sessionId) || [];
     }
 
-    public removeQuestion(questionId: string): void {
+    public findQuestion(questionId: string): PendingQuestion {
+        for (const questions of this._questions.values()) {
+            const question = questions.find(q => q.id === questionId);
+            if (question) {
+                return question;
+            }
+        }
+
+        throw new ExtensionError(
+            'Question not found',
+            ErrorCode.QUESTION_NOT_FOUND
+        );
+    }
+
+    public removeQuestion(questionId: string): PendingQuestion {
         for (const [sessionId, questions] of this._questions.entries()) {
             const index = questions.findIndex(q => q.id === questionId);
             if (index !== -1) {
-                questions.splice(index, 1);
+                const [removed] = questions.splice(index, 1);
                 this._questions.set(sessionId, questions);
+                this._store.saveQuestions(sessionId, questions);
 
                 if (questions.length === 0) {
                     const session = this._sessions.get(sessionId);
                     if (session && session.status === SessionStatus.WaitingForInput) {
-                        session.status = SessionStatus.Processing;
+                        this.transition(session, SessionStatus.Processing, 'All questions answered');
                     }
                 }
-                return;
+                return removed;
             }
         }
 
@@ -142,23 +444,130 @@ export class SessionManager {
         );
     }
 
+    public addChangeSet(changeSet: ChangeSet): ChangeSet {
+        this.getSession(changeSet.sessionId);
+
+        const changeSets = this._changeSets.get(changeSet.sessionId) || [];
+        changeSets.push(changeSet);
+        this._changeSets.set(changeSet.sessionId, changeSets);
+        this._store.saveChangeSet(changeSet);
+
+        return changeSet;
+    }
+
+    public getChangeSets(sessionId: string): ChangeSet[] {
+        this.getSession(sessionId);
+        return this._changeSets.get(sessionId) || [];
+    }
+
+    public getChangeSet(sessionId: string, changeId: string): ChangeSet {
+        const changeSet = this.getChangeSets(sessionId).find(c => c.id === changeId);
+        if (!changeSet) {
+            throw new ExtensionError(
+                'Change set not found',
+                ErrorCode.CHANGE_NOT_FOUND
+            );
+        }
+        return changeSet;
+    }
+
+    /**
+     * Persists a change set after it was modified in place.
+     */
+    public updateChangeSet(changeSet: ChangeSet): void {
+        this.getSession(changeSet.sessionId);
+        this._store.saveChangeSet(changeSet);
+    }
+
     public deleteSession(sessionId: string): void {
-        const session = this.getSession(sessionId);
+        this.getSession(sessionId); // Validate session exists
 
         this._sessions.delete(sessionId);
         this._messages.delete(sessionId);
         this._questions.delete(sessionId);
+        this._changeSets.delete(sessionId);
+        this._eventStream.clear(sessionId);
+        this._store.deleteSession(sessionId);
+    }
+
+    private transition(session: Session, status: SessionStatus, reason: string, currentCommand?: string | null): void {
+        const timestamp = new Date().toISOString();
+
+        if (status !== session.status) {
+            SessionStateMachine.assertTransition(session, status);
+
+            session.transitions.push({ from: session.status, to: status, reason, timestamp });
+            if (session.transitions.length > SessionManager.MAX_TRANSITIONS) {
+                session.transitions.splice(0, session.transitions.length - SessionManager.MAX_TRANSITIONS);
+            }
+            logger.debug('Session status changed', { sessionId: session.id, from: session.status, to: status, reason });
+        }
+
+        session.status = status;
+        session.lastActivityAt = timestamp;
+        if (currentCommand !== undefined) {
+            session.currentCommand = currentCommand;
+        }
+        this._store.saveSession(session);
+        this.publishStatus(session);
+    }
+
+    private sweepIdle(): void {
+        const now = Date.now();
+        const questionTimeoutMs = Config.getQuestionTimeoutMinutes() * 60 * 1000;
+        const idleTimeoutMs = Config.getSessionIdleTimeoutMinutes() * 60 * 1000;
+
+        for (const session of this.getOpenSessions()) {
+            // A running command has its own lifetime; cancel it to end the session
+            if (session.status === SessionStatus.Processing) {
+                continue;
+            }
+
+            if (questionTimeoutMs > 0) {
+                const stale = this.getQuestions(session.id)
+                    .filter(question => now - Date.parse(question.timestamp) > questionTimeoutMs);
+                if (stale.length > 0) {
+                    this.expireQuestions(session.id, stale);
+                    logger.info('Questions expired', { sessionId: session.id, count: stale.length });
+                }
+            }
+
+            const lastActivity = Date.parse(session.lastActivityAt ?? session.startedAt);
+            if (idleTimeoutMs > 0 && now - lastActivity > idleTimeoutMs) {
+                this.completeSession(session.id, SessionCompletionReason.IdleTimeout);
+            }
+        }
+    }
+
+    /**
+     * Drops questions nobody answered. A session left with no questions stops
+     * waiting for input; change sets behind expired confirmations stay pending
+     * and can still be approved or rejected directly.
+     */
+    private expireQuestions(sessionId: string, expired: PendingQuestion[]): void {
+        if (expired.length === 0) {
+            return;
+        }
 
-        if (this._activeSessionId === sessionId) {
-            this._activeSessionId = null;
+        const remaining = this.getQuestions(sessionId).filter(question => !expired.includes(question));
+        this._questions.set(sessionId, remaining);
+        this._store.saveQuestions(sessionId, remaining);
+
+        for (const question of expired) {
+            this._eventStream.publish(sessionId, SessionEventType.QuestionExpired, { question });
+        }
+
+        const session = this.getSession(sessionId);
+        if (remaining.length === 0 && session.status === SessionStatus.WaitingForInput) {
+            this.transition(session, SessionStatus.Idle, 'Questions expired');
         }
     }
 
-    public hasActiveSession(): boolean {
-        return this._activeSessionId !== null;
+    private isClosed(session: Session): boolean {
+        return session.status === SessionStatus.Completed || session.status === SessionStatus.Archived;
     }
 
-    public getActiveSessionId(): string | null {
-        return this._activeSessionId;
+    private publishStatus(session: Session): void {
+        this._eventStream.publish(session.id, SessionEventType.StatusChanged, { session: { ...session } });
     }
 }
@@ -0,0 +1,55 @@
+import { Session } from '../types/session';
+import { ConversationMessage } from '../types/messages';
+import { PendingQuestion } from '../types/questions';
+import { ChangeSet } from '../types/edits';
+
+export interface SessionSnapshot {
+    sessions: Session[];
+    messages: Map<string, ConversationMessage[]>;
+    questions: Map<string, PendingQuestion[]>;
+    changeSets: Map<string, ChangeSet[]>;
+}
+
+/**
+ * Persistence backend for SessionManager. Writes are synchronous so the
+ * in-memory state and the store never disagree after a method returns.
+ */
+export interface SessionStore {
+    load(): SessionSnapshot;
+    saveSession(session: Session): void;
+    appendMessage(message: ConversationMessage): void;
+    saveQuestions(sessionId: string, questions: PendingQuestion[]): void;
+    saveChangeSet(changeSet: ChangeSet): void;
+    deleteSession(sessionId: string): void;
+}
+
+export class InMemorySessionStore implements SessionStore {
+    public load(): SessionSnapshot {
+        return {
+            sessions: [],
+            messages: new Map(),
+            questions: new Map(),
+            changeSets: new Map()
+        };
+    }
+
+    public saveSession(): void {
+        // Nothing to persist
+    }
+
+    public appendMessage(): void {
+        // Nothing to persist
+    }
+
+    public saveQuestions(): void {
+        // Nothing to persist
+    }
+
+    public saveChangeSet(): void {
+        // Nothing to persist
+    }
+
+    public deleteSession(): void {
+        // Nothing to persist
+    }
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ApplyEditsResult, EditFailure, FileChange, FileEdit, FileEditKind } from '../types/edits';
+import { logger } from '../utils/logger';
+import { PathPolicy } from '../utils/pathPolicy';
+
+export interface EditPreview {
+    changes: FileChange[];
+    failures: EditFailure[];
+}
+
+export class WorkspaceEditService {
+    /**
+     * Resolves parsed edits against the current file contents without
+     * touching the disk. Several edits to the same file are applied on top
+     * of each other. Edits that cannot be resolved (unknown file, SEARCH
+     * text not found) are reported as failures and left out.
+     */
+    public async previewEdits(repositoryPath: string, edits: FileEdit[]): Promise<EditPreview> {
+        const changes = new Map<string, FileChange>();
+        const failures: EditFailure[] = [];
+
+        for (const edit of edits) {
+            try {
+                const uri = this.resolveUri(repositoryPath, edit.path);
+                const key = uri.fsPath;
+                const existing = changes.get(key);
+                const currentText = existing ? existing.newText : await this.readText(uri);
+
+                changes.set(key, {
+                    path: edit.path,
+                    originalText: existing ? existing.originalText : currentText,
+                    newText: this.applyToText(currentText, edit)
+                });
+            } catch (error) {
+                failures.push({ path: edit.path, reason: (error as Error).message });
+            }
+        }
+
+        return {
+            changes: Array.from(changes.values()).filter(change => change.originalText !== change.newText),
+            failures
+        };
+    }
+
+    /**
+     * Writes previewed changes as a single WorkspaceEdit and saves the
+     * touched documents. A file that changed since it was previewed is
+     * skipped rather than overwritten.
+     */
+    public async applyChanges(repositoryPath: string, changes: FileChange[]): Promise<ApplyEditsResult> {
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        const failures: EditFailure[] = [];
+        const applicable: { change: FileChange; uri: vscode.Uri }[] = [];
+
+        for (const change of changes) {
+            try {
+                const uri = this.resolveUri(repositoryPath, change.path);
+                const currentText = await this.readText(uri);
+                if (currentText !== change.originalText) {
+                    throw new Error('File changed since the edit was proposed');
+                }
+
+                if (change.newText === null) {
+                    workspaceEdit.deleteFile(uri);
+                } else if (currentText === null) {
+                    workspaceEdit.createFile(uri, { ignoreIfExists: true });
+                    workspaceEdit.insert(uri, new vscode.Position(0, 0), change.newText);
+                } else {
+                    const document = await vscode.workspace.openTextDocument(uri);
+                    const fullRange = new vscode.Range(
+                        document.positionAt(0),
+                        document.positionAt(currentText.length)
+                    );
+                    workspaceEdit.replace(uri, fullRange, change.newText);
+                }
+                applicable.push({ change, uri });
+            } catch (error) {
+                failures.push({ path: change.path, reason: (error as Error).message });
+            }
+        }
+
+        if (applicable.length === 0) {
+            return { filesChanged: [], failures };
+        }
+
+        const applied = await vscode.workspace.applyEdit(workspaceEdit);
+        if (!applied) {
+            return {
+                filesChanged: [],
+                failures: [
+                    ...failures,
+                    ...applicable.map(({ change }) => ({ path: change.path, reason: 'VS Code rejected the workspace edit' }))
+                ]
+            };
+        }
+
+        for (const { change, uri } of applicable) {
+            if (change.newText === null) {
+                continue;
+            }
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                await document.save();
+            } catch (error) {
+                logger.warn('Failed to save edited document', { path: change.path, error: (error as Error).message });
+            }
+        }
+
+        const filesChanged = applicable.map(({ change }) => change.path);
+        logger.info('Workspace edits applied', { filesChanged, failureCount: failures.length });
+
+        return { filesChanged, failures };
+    }
+
+    private applyToText(currentText: string | null, edit: FileEdit): string | null {
+        switch (edit.kind) {
+            case FileEditKind.Write:
+                return edit.content || '';
+            case FileEditKind.Replace: {
+                if (currentText === null) {
+                    throw new Error('File does not exist');
+                }
+
+                const ranges: { start: number; end: number; replace: string }[] = [];
+                for (const replacement of edit.replacements || []) {
+                    if (replacement.search.length === 0) {
+                        throw new Error('SEARCH section is empty');
+                    }
+                    const start = currentText.indexOf(replacement.search);
+                    if (start === -1) {
+                        throw new Error('SEARCH text not found in file');
+                    }
+                    ranges.push({ start, end: start + replacement.search.length, replace: replacement.replace });
+                }
+
+                ranges.sort((a, b) => a.start - b.start);
+                let result = '';
+                let offset = 0;
+                for (const range of ranges) {
+                    if (range.start < offset) {
+                        throw new Error('SEARCH sections overlap');
+                    }
+                    result += currentText.slice(offset, range.start) + range.replace;
+                    offset = range.end;
+                }
+                return result + currentText.slice(offset);
+            }
+            case FileEditKind.Delete:
+                if (currentText === null) {
+                    throw new Error('File does not exist');
+                }
+                return null;
+        }
+    }
+
+    private resolveUri(repositoryPath: string, filePath: string): vscode.Uri {
+        if (path.isAbsolute(filePath)) {
+            throw new Error('Edit paths must be relative to the repository');
+        }
+
+        return vscode.Uri.file(PathPolicy.resolveFilePath(repositoryPath, filePath));
+    }
+
+    /**
+     * Reads through open documents so unsaved editor changes are respected.
+     * Returns null when the file does not exist.
+     */
+    private async readText(uri: vscode.Uri): Promise<string | null> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            return null;
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        return document.getText();
+    }
+}
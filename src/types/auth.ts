@@ -0,0 +1,26 @@
+export enum ApiKeyScope {
+    Read = "read",
+    Command = "command",
+    Respond = "respond",
+    Admin = "admin"
+}
+
+export interface DeviceKey {
+    id: string;
+    name: string;
+    scopes: ApiKeyScope[];
+    // SHA-256 of the token; the token itself is only shown once, at creation
+    tokenHash: string;
+    createdAt: string;
+}
+
+export interface AuthenticatedDevice {
+    id: string;
+    name: string;
+    scopes: ApiKeyScope[];
+}
+
+export interface CreatedDeviceKey {
+    device: DeviceKey;
+    token: string;
+}
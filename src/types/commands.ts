@@ -1,21 +1,74 @@
+import { ModelSelector } from './models';
+import { ErrorCode } from './errors';
+
 export interface CommandRequest {
     sessionId: string;
     command: string;
     context?: CommandContext;
+    modelPreferences?: ModelSelector[];
 }
 
 export interface CommandContext {
     includeFiles?: string[];
     includeWorkspace?: boolean;
+    includeOpenEditors?: boolean;
+    includeSelection?: boolean;
+    includeDiagnostics?: boolean;
+    includeGitStatus?: boolean;
+    includeGitDiff?: boolean;
 }
 
 export interface CommandResponse {
     success: boolean;
     commandId: string;
     status: string;
+    // 0 when the command started right away, otherwise its place among the waiting commands
+    position: number;
     message?: string;
 }
 
+export enum QueuedCommandKind {
+    Command = "command",
+    Answer = "answer"
+}
+
+export interface QueuedCommand {
+    commandId: string;
+    sessionId: string;
+    kind: QueuedCommandKind;
+    prompt: string;
+    context?: CommandContext;
+    modelPreferences?: ModelSelector[];
+    enqueuedAt: string;
+    startedAt?: string;
+    // The failed command this one retries
+    retryOf?: string;
+}
+
+/**
+ * Why a command failed, kept on the session and on the failure message.
+ */
+export interface CommandError {
+    commandId: string;
+    code: ErrorCode;
+    message: string;
+    // Transient failures such as model rate limits or network errors
+    retryable: boolean;
+    attempts: number;
+    timestamp: string;
+}
+
+export interface CommandQueueSnapshot {
+    sessionId: string;
+    running: QueuedCommand | null;
+    pending: QueuedCommand[];
+}
+
+export interface MoveQueuedCommandRequest {
+    // 1-based place among the waiting commands
+    position: number;
+}
+
 export interface TaskResult {
     commandId: string;
     success: boolean;
@@ -0,0 +1,68 @@
+export interface FileEdit {
+    kind: FileEditKind;
+    path: string;
+    content?: string;
+    replacements?: TextReplacement[];
+}
+
+export enum FileEditKind {
+    Write = "write",
+    Replace = "replace",
+    Delete = "delete"
+}
+
+export interface TextReplacement {
+    search: string;
+    replace: string;
+}
+
+export interface EditFailure {
+    path: string;
+    reason: string;
+}
+
+export interface ApplyEditsResult {
+    filesChanged: string[];
+    failures: EditFailure[];
+}
+
+export interface FileChange {
+    path: string;
+    originalText: string | null;
+    newText: string | null;
+}
+
+export interface ProposedFileChange extends FileChange {
+    diff: string;
+    additions: number;
+    deletions: number;
+}
+
+export interface ChangeSet {
+    id: string;
+    sessionId: string;
+    commandId: string;
+    messageId: string;
+    questionId: string | null;
+    status: ChangeSetStatus;
+    files: ProposedFileChange[];
+    createdAt: string;
+    resolvedAt: string | null;
+    filesChanged: string[];
+    failures: EditFailure[];
+}
+
+export enum ChangeSetStatus {
+    Pending = "pending",
+    Approved = "approved",
+    Rejected = "rejected"
+}
+
+export interface ChangesResponse {
+    changes: ChangeSet[];
+}
+
+export interface ChangeDecisionResponse {
+    success: boolean;
+    change: ChangeSet;
+}
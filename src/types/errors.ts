@@ -9,20 +9,32 @@ export enum ErrorCode {
     EXTENSION_NOT_CONNECTED = "1001",
     EXTENSION_TIMEOUT = "1002",
     LANGUAGE_MODEL_ERROR = "1003",
+    LANGUAGE_MODEL_RATE_LIMITED = "1004",
 
     SESSION_NOT_FOUND = "2001",
     SESSION_ALREADY_EXISTS = "2002",
     SESSION_TIMEOUT = "2003",
     INVALID_SESSION_STATE = "2004",
+    SESSION_LIMIT_REACHED = "2005",
+    MESSAGE_NOT_FOUND = "2006",
 
     INVALID_COMMAND = "3001",
     COMMAND_TIMEOUT = "3002",
     COMMAND_REJECTED = "3003",
+    COMMAND_NOT_FOUND = "3004",
 
     QUESTION_NOT_FOUND = "4001",
     INVALID_ANSWER = "4002",
 
+    CHANGE_NOT_FOUND = "5001",
+    CHANGE_ALREADY_RESOLVED = "5002",
+
+    PATH_NOT_ALLOWED = "6001",
+
     UNAUTHORIZED = "9001",
+    FORBIDDEN = "9002",
+    RATE_LIMITED = "9003",
+    IDEMPOTENCY_CONFLICT = "9004",
     INTERNAL_ERROR = "9999"
 }
 
@@ -0,0 +1,83 @@
+import { Session } from './session';
+import { ConversationMessage } from './messages';
+import { PendingQuestion } from './questions';
+import { CommandError, CommandQueueSnapshot, TaskResult } from './commands';
+
+export interface SessionEvent {
+    id: number;
+    sessionId: string;
+    type: SessionEventType;
+    data: SessionEventPayload;
+    timestamp: string;
+}
+
+export enum SessionEventType {
+    MessageDelta = "message.delta",
+    MessageCompleted = "message.completed",
+    QuestionPending = "question.pending",
+    QuestionExpired = "question.expired",
+    StatusChanged = "status.changed",
+    TaskCompleted = "task.completed",
+    QueueChanged = "queue.changed",
+    CommandRetrying = "command.retrying",
+    StreamReset = "stream.reset"
+}
+
+export enum StreamResetReason {
+    // Events after the client's Last-Event-ID fell out of the replay buffer
+    EventsDropped = "events_dropped",
+    // The Last-Event-ID came from a previous server instance
+    ServerRestarted = "server_restarted"
+}
+
+export interface MessageDeltaPayload {
+    messageId: string;
+    delta: string;
+}
+
+export interface MessageCompletedPayload {
+    message: ConversationMessage;
+}
+
+export interface QuestionPendingPayload {
+    question: PendingQuestion;
+}
+
+export interface QuestionExpiredPayload {
+    question: PendingQuestion;
+}
+
+export interface StatusChangedPayload {
+    session: Session;
+}
+
+export interface TaskCompletedPayload {
+    result: TaskResult;
+}
+
+export interface QueueChangedPayload {
+    queue: CommandQueueSnapshot;
+}
+
+export interface CommandRetryingPayload {
+    commandId: string;
+    // The attempt about to be made, starting at 2
+    attempt: number;
+    delayMs: number;
+    error: CommandError;
+}
+
+export interface StreamResetPayload {
+    reason: StreamResetReason;
+}
+
+export type SessionEventPayload =
+    | MessageDeltaPayload
+    | MessageCompletedPayload
+    | QuestionPendingPayload
+    | QuestionExpiredPayload
+    | StatusChangedPayload
+    | TaskCompletedPayload
+    | QueueChangedPayload
+    | CommandRetryingPayload
+    | StreamResetPayload;
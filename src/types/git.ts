@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+
+/*
+ * The subset of the built-in `vscode.git` extension API used by the
+ * extension. Names and enum values mirror the extension's git.d.ts.
+ */
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+export interface GitAPI {
+    readonly repositories: GitRepository[];
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: GitRepositoryState;
+    diff(cached?: boolean): Promise<string>;
+    diffWithHEAD(path: string): Promise<string>;
+    diffIndexWithHEAD(path: string): Promise<string>;
+    log(options?: { maxEntries?: number }): Promise<GitCommit[]>;
+}
+
+export interface GitRepositoryState {
+    readonly HEAD: GitBranch | undefined;
+    readonly indexChanges: GitChange[];
+    readonly workingTreeChanges: GitChange[];
+}
+
+export interface GitBranch {
+    readonly name?: string;
+    readonly commit?: string;
+    readonly upstream?: { readonly remote: string; readonly name: string };
+    readonly ahead?: number;
+    readonly behind?: number;
+}
+
+export interface GitChange {
+    readonly uri: vscode.Uri;
+    readonly originalUri: vscode.Uri;
+    readonly status: GitStatus;
+}
+
+export interface GitCommit {
+    readonly hash: string;
+    readonly message: string;
+    readonly authorName?: string;
+    readonly authorDate?: Date;
+}
+
+export enum GitStatus {
+    IndexModified = 0,
+    IndexAdded = 1,
+    IndexDeleted = 2,
+    IndexRenamed = 3,
+    IndexCopied = 4,
+    Modified = 5,
+    Deleted = 6,
+    Untracked = 7,
+    Ignored = 8,
+    IntentToAdd = 9,
+    IntentToRename = 10,
+    TypeChanged = 11
+}
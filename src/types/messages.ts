@@ -1,3 +1,6 @@
+import { ModelInfo } from './models';
+import { CommandError } from './commands';
+
 export interface ConversationMessage {
     id: string;
     sessionId: string;
@@ -16,6 +19,9 @@ export enum MessageRole {
 export interface MessageMetadata {
     filesChanged?: string[];
     commandId?: string;
+    model?: ModelInfo;
+    summarizedThroughMessageId?: string;
+    error?: CommandError;
 }
 
 export interface MessagesResponse {
@@ -0,0 +1,19 @@
+export interface ModelSelector {
+    vendor?: string;
+    family?: string;
+    version?: string;
+    id?: string;
+}
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+    vendor: string;
+    family: string;
+    version: string;
+    maxInputTokens: number;
+}
+
+export interface ModelsResponse {
+    models: ModelInfo[];
+}
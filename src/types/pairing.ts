@@ -0,0 +1,33 @@
+import { ApiKeyScope } from './auth';
+
+export interface PairingOffer {
+    code: string;
+    expiresAt: string;
+}
+
+/**
+ * Encoded as JSON in the pairing QR code.
+ */
+export interface PairingPayload {
+    type: 'remote-vibe-pairing';
+    version: 1;
+    serverUrl: string;
+    backendUrl: string;
+    code: string;
+    expiresAt: string;
+    // Both null when TLS is disabled
+    fingerprint: string | null;
+    publicKeyPin: string | null;
+}
+
+export interface PairRequest {
+    code: string;
+    deviceName: string;
+}
+
+export interface PairResponse {
+    success: boolean;
+    deviceId: string;
+    token: string;
+    scopes: ApiKeyScope[];
+}
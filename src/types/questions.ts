@@ -4,7 +4,14 @@ export interface PendingQuestion {
     question: string;
     questionType: QuestionType;
     options?: string[];
+    defaultAnswer?: string;
+    // 1 for questions the model declared in a question block, lower for heuristic guesses
+    confidence?: number;
     timestamp: string;
+    changeId?: string;
+    // Assistant message that asked the question and its position among that message's questions
+    sourceMessageId?: string;
+    order?: number;
 }
 
 export enum QuestionType {
@@ -20,13 +27,24 @@ export interface QuestionResponse {
     timestamp: string;
 }
 
-export interface RespondRequest {
+export type RespondRequest = SingleRespondRequest | BatchRespondRequest;
+
+export interface SingleRespondRequest extends QuestionAnswer {
+    timestamp: string;
+}
+
+export interface BatchRespondRequest {
+    answers: QuestionAnswer[];
+    timestamp: string;
+}
+
+export interface QuestionAnswer {
     questionId: string;
     answer: string;
-    timestamp: string;
 }
 
 export interface RespondResponse {
     success: boolean;
     status: string;
+    commandId?: string;
 }
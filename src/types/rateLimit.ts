@@ -0,0 +1,23 @@
+/**
+ * Token bucket settings: up to `burst` requests at once, refilled at
+ * `perMinute` tokens per minute.
+ */
+export interface RateLimit {
+    burst: number;
+    perMinute: number;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    // Only set when the request was refused
+    retryAfterSeconds?: number;
+}
+
+export interface RateLimitStats {
+    allowedRequests: number;
+    rateLimitedRequests: number;
+    quotaRejections: number;
+    dailyCommandQuota: number;
+    commandsToday: number;
+    quotaResetsAt: string;
+}
@@ -5,6 +5,26 @@ export interface Session {
     startedAt: string;
     lastActivityAt: string | null;
     currentCommand: string | null;
+    interruptedAt?: string;
+    completedAt?: string;
+    completionReason?: SessionCompletionReason;
+    archivedAt?: string;
+    // Set when the last command failed, cleared when one succeeds
+    lastError?: CommandError;
+    // Set on sessions forked from another session's history
+    parentSessionId?: string;
+    forkedFromMessageId?: string;
+    modelPreferences?: ModelSelector[];
+    // Oldest first; only the most recent transitions are kept
+    transitions: SessionTransition[];
+}
+
+export interface SessionTransition {
+    // Null for the transition that created the session
+    from: SessionStatus | null;
+    to: SessionStatus;
+    reason: string;
+    timestamp: string;
 }
 
 export enum SessionStatus {
@@ -12,11 +32,29 @@ export enum SessionStatus {
     Processing = "processing",
     WaitingForInput = "waiting_for_input",
     Completed = "completed",
+    Archived = "archived",
     Error = "error"
 }
 
+export enum SessionCompletionReason {
+    Requested = "requested",
+    IdleTimeout = "idle_timeout"
+}
+
 export interface StartSessionRequest {
     repositoryPath: string;
+    modelPreferences?: ModelSelector[];
+}
+
+/**
+ * Names the fork point either by message id or by the command whose
+ * messages should be the last ones copied.
+ */
+export type ForkSessionRequest = { messageId: string } | { commandId: string };
+
+export interface SessionLineage {
+    parentSessionId: string;
+    forkedFromMessageId: string;
 }
 
 export interface StartSessionResponse {
@@ -24,9 +62,26 @@ export interface StartSessionResponse {
     session: Session;
 }
 
+export interface SessionSummary extends Session {
+    messageCount: number;
+    pendingQuestionCount: number;
+}
+
+export interface SessionListResponse {
+    sessions: SessionSummary[];
+}
+
+export interface SessionTimelineResponse {
+    sessionId: string;
+    status: SessionStatus;
+    transitions: SessionTransition[];
+}
+
 export interface SessionStatusResponse {
     session: Session;
     pendingQuestions: PendingQuestion[];
 }
 
 import { PendingQuestion } from './questions';
+import { ModelSelector } from './models';
+import { CommandError } from './commands';
@@ -0,0 +1,8 @@
+export interface TlsCredentials {
+    key: string;
+    cert: string;
+    // SHA-256 of the certificate, colon-separated hex, for people to compare
+    fingerprint: string;
+    // `sha256/<base64>` hash of the public key, for clients to pin
+    publicKeyPin: string;
+}
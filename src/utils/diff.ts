@@ -0,0 +1,175 @@
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+export interface UnifiedDiff {
+    diff: string;
+    additions: number;
+    deletions: number;
+}
+
+export class Diff {
+    private static readonly CONTEXT_LINES = 3;
+    // Above this many LCS cells, fall back to a single whole-file hunk
+    private static readonly MAX_LCS_CELLS = 25_000_000;
+
+    /**
+     * Creates a unified diff between two versions of a file. `null` stands
+     * for a file that does not exist on that side (creation or deletion).
+     */
+    public static createUnifiedDiff(filePath: string, oldText: string | null, newText: string | null): UnifiedDiff {
+        const oldLines = this.splitLines(oldText);
+        const newLines = this.splitLines(newText);
+        const ops = this.diffLines(oldLines, newLines);
+
+        const header = [
+            `--- ${oldText === null ? '/dev/null' : `a/${filePath}`}`,
+            `+++ ${newText === null ? '/dev/null' : `b/${filePath}`}`
+        ];
+
+        const hunks = this.buildHunks(ops);
+
+        return {
+            diff: hunks.length > 0 ? [...header, ...hunks].join('\n') + '\n' : '',
+            additions: ops.filter(op => op.type === 'insert').length,
+            deletions: ops.filter(op => op.type === 'delete').length
+        };
+    }
+
+    private static splitLines(text: string | null): string[] {
+        if (!text) {
+            return [];
+        }
+        const lines = text.split(/\r?\n/);
+        if (lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        return lines;
+    }
+
+    private static diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+        // Trim the common prefix and suffix so the LCS table only covers the changed region
+        let prefix = 0;
+        while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (
+            suffix < oldLines.length - prefix &&
+            suffix < newLines.length - prefix &&
+            oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+        ) {
+            suffix++;
+        }
+
+        const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+        const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+        const ops: DiffOp[] = oldLines.slice(0, prefix).map(line => ({ type: 'equal', line }));
+        ops.push(...this.diffMiddle(oldMiddle, newMiddle));
+        ops.push(...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line })));
+
+        return ops;
+    }
+
+    private static diffMiddle(oldLines: string[], newLines: string[]): DiffOp[] {
+        const n = oldLines.length;
+        const m = newLines.length;
+
+        if (n * m > this.MAX_LCS_CELLS) {
+            return [
+                ...oldLines.map(line => ({ type: 'delete' as const, line })),
+                ...newLines.map(line => ({ type: 'insert' as const, line }))
+            ];
+        }
+
+        // lengths[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+        const lengths = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * (m + 1) + j] = oldLines[i] === newLines[j]
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+            }
+        }
+
+        const ops: DiffOp[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (oldLines[i] === newLines[j]) {
+                ops.push({ type: 'equal', line: oldLines[i] });
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+                ops.push({ type: 'delete', line: oldLines[i++] });
+            } else {
+                ops.push({ type: 'insert', line: newLines[j++] });
+            }
+        }
+        while (i < n) {
+            ops.push({ type: 'delete', line: oldLines[i++] });
+        }
+        while (j < m) {
+            ops.push({ type: 'insert', line: newLines[j++] });
+        }
+
+        return ops;
+    }
+
+    private static buildHunks(ops: DiffOp[]): string[] {
+        const lines: string[] = [];
+        const changeIndexes = ops
+            .map((op, index) => (op.type === 'equal' ? -1 : index))
+            .filter(index => index !== -1);
+
+        let cursor = 0;
+        while (cursor < changeIndexes.length) {
+            // Group changes whose context windows touch into one hunk
+            const start = Math.max(0, changeIndexes[cursor] - this.CONTEXT_LINES);
+            let end = changeIndexes[cursor];
+            while (
+                cursor + 1 < changeIndexes.length &&
+                changeIndexes[cursor + 1] - end <= this.CONTEXT_LINES * 2
+            ) {
+                end = changeIndexes[++cursor];
+            }
+            end = Math.min(ops.length - 1, end + this.CONTEXT_LINES);
+            cursor++;
+
+            let oldStart = 1;
+            let newStart = 1;
+            for (let k = 0; k < start; k++) {
+                if (ops[k].type !== 'insert') {
+                    oldStart++;
+                }
+                if (ops[k].type !== 'delete') {
+                    newStart++;
+                }
+            }
+
+            const body: string[] = [];
+            let oldCount = 0;
+            let newCount = 0;
+            for (let k = start; k <= end; k++) {
+                const op = ops[k];
+                if (op.type === 'equal') {
+                    body.push(` ${op.line}`);
+                    oldCount++;
+                    newCount++;
+                } else if (op.type === 'delete') {
+                    body.push(`-${op.line}`);
+                    oldCount++;
+                } else {
+                    body.push(`+${op.line}`);
+                    newCount++;
+                }
+            }
+
+            lines.push(
+                `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+                ...body
+            );
+        }
+
+        return lines;
+    }
+}
@@ -0,0 +1,51 @@
+export interface FileReference {
+    path: string;
+    // 1-based and inclusive
+    startLine?: number;
+    endLine?: number;
+    symbol?: string;
+}
+
+/**
+ * Parses `includeFiles` entries: a plain path, `path#L10-L80` or `path#L10`
+ * for a line range, or `path::Symbol` (`path::Class.method` for nested
+ * symbols).
+ */
+export class FileReferenceParser {
+    private static readonly LINE_RANGE = /^(.+)#L(\d+)(?:-L?(\d+))?$/;
+    private static readonly SYMBOL = /^(.+?)::([^:]+)$/;
+
+    public static parse(entry: string): FileReference {
+        const trimmed = entry.trim();
+
+        const range = this.LINE_RANGE.exec(trimmed);
+        if (range) {
+            const startLine = Math.max(1, Number.parseInt(range[2], 10));
+            const endLine = range[3] ? Number.parseInt(range[3], 10) : startLine;
+            return {
+                path: range[1],
+                startLine: Math.min(startLine, endLine),
+                endLine: Math.max(startLine, endLine)
+            };
+        }
+
+        const symbol = this.SYMBOL.exec(trimmed);
+        if (symbol) {
+            return { path: symbol[1], symbol: symbol[2].trim() };
+        }
+
+        return { path: trimmed };
+    }
+
+    public static format(reference: FileReference): string {
+        if (reference.symbol) {
+            return `${reference.path}::${reference.symbol}`;
+        }
+        if (reference.startLine !== undefined && reference.endLine !== undefined) {
+            return reference.startLine === reference.endLine
+                ? `${reference.path}#L${reference.startLine}`
+                : `${reference.path}#L${reference.startLine}-L${reference.endLine}`;
+        }
+        return reference.path;
+    }
+}
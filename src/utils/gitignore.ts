@@ -0,0 +1,177 @@
+interface IgnoreRule {
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    directoryOnly: boolean;
+    // The same pattern as a repository-relative glob, when it has a direct equivalent
+    glob: string | null;
+}
+
+/**
+ * Matches repository-relative paths against .gitignore rules. Supports the
+ * common subset of the format: comments, negation, directory-only patterns,
+ * anchored patterns and the `*`, `?`, `**` and `[...]` wildcards. Paths use
+ * forward slashes.
+ */
+export class GitignoreMatcher {
+    private readonly _rules: IgnoreRule[] = [];
+
+    /**
+     * Adds the rules from a .gitignore file located in `baseDirectory`
+     * (repository-relative, '' for the root). Files added later take
+     * precedence, so add parent directories before their children.
+     */
+    public add(baseDirectory: string, content: string): void {
+        const base = baseDirectory.replace(/^\/+|\/+$/g, '');
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            const rule = this.parseRule(base, rawLine);
+            if (rule) {
+                this._rules.push(rule);
+            }
+        }
+    }
+
+    /**
+     * Globs for paths the rules ignore, for excluding them from a file search
+     * up front. A negated rule can re-include what earlier rules ignore, so
+     * only rules after the last negation are covered; `isIgnored` stays the
+     * authority for the rest.
+     */
+    public toExcludeGlobs(): string[] {
+        const lastNegation = this._rules.map(rule => rule.negate).lastIndexOf(true);
+
+        return this._rules.slice(lastNegation + 1).flatMap(rule => {
+            if (rule.glob === null) {
+                return [];
+            }
+            return rule.directoryOnly ? [`${rule.glob}/**`] : [rule.glob, `${rule.glob}/**`];
+        });
+    }
+
+    public isIgnored(relativePath: string): boolean {
+        const segments = relativePath.split('/').filter(segment => segment.length > 0);
+
+        // Git never looks inside an excluded directory, so a negated file rule can't re-include it
+        for (let i = 1; i < segments.length; i++) {
+            if (this.matches(segments.slice(0, i).join('/'), true)) {
+                return true;
+            }
+        }
+
+        return this.matches(segments.join('/'), false);
+    }
+
+    private matches(relativePath: string, isDirectory: boolean): boolean {
+        let ignored = false;
+
+        for (const rule of this._rules) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (rule.base && !relativePath.startsWith(rule.base + '/')) {
+                continue;
+            }
+
+            const pathFromBase = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+            if (rule.regex.test(pathFromBase)) {
+                ignored = !rule.negate;
+            }
+        }
+
+        return ignored;
+    }
+
+    private parseRule(base: string, rawLine: string): IgnoreRule | null {
+        let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (pattern.length === 0 || pattern.startsWith('#')) {
+            return null;
+        }
+
+        let negate = false;
+        if (pattern.startsWith('!')) {
+            negate = true;
+            pattern = pattern.slice(1);
+        } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+            pattern = pattern.slice(1);
+        }
+
+        let directoryOnly = false;
+        if (pattern.endsWith('/')) {
+            directoryOnly = true;
+            pattern = pattern.replace(/\/+$/, '');
+        }
+
+        if (pattern.length === 0) {
+            return null;
+        }
+
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\/+/, '');
+
+        const body = this.toRegexSource(pattern);
+        const prefix = base ? `${base}/` : '';
+        return {
+            base,
+            regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+            negate,
+            directoryOnly,
+            // Escapes and glob brace syntax have no safe one-to-one translation
+            glob: /[\\{},]/.test(pattern) ? null : `${prefix}${anchored ? '' : '**/'}${pattern}`
+        };
+    }
+
+    private toRegexSource(pattern: string): string {
+        let source = '';
+        let i = 0;
+
+        while (i < pattern.length) {
+            const char = pattern[i];
+
+            if (char === '*') {
+                if (pattern[i + 1] === '*') {
+                    const atStart = i === 0 || pattern[i - 1] === '/';
+                    const atEnd = i + 2 === pattern.length;
+                    if (atStart && pattern[i + 2] === '/') {
+                        source += '(?:.*/)?';
+                        i += 3;
+                        continue;
+                    }
+                    if (atStart && atEnd) {
+                        source += '.*';
+                        i += 2;
+                        continue;
+                    }
+                }
+                source += '[^/]*';
+                i++;
+            } else if (char === '?') {
+                source += '[^/]';
+                i++;
+            } else if (char === '[') {
+                const close = pattern.indexOf(']', i + 2);
+                if (close === -1) {
+                    source += '\\[';
+                    i++;
+                    continue;
+                }
+                const set = pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${set}]`;
+                i = close + 1;
+            } else if (char === '\\' && i + 1 < pattern.length) {
+                source += this.escape(pattern[i + 1]);
+                i += 2;
+            } else {
+                source += this.escape(char);
+                i++;
+            }
+        }
+
+        return source;
+    }
+
+    private escape(char: string): string {
+        return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+}
@@ -0,0 +1,53 @@
+import { ErrorCode, ExtensionError } from '../types/errors';
+
+export interface ClassifiedError {
+    code: ErrorCode;
+    message: string;
+    retryable: boolean;
+}
+
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ENETUNREACH',
+    'EPIPE'
+]);
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|\b429\b/i;
+const NETWORK_PATTERN = /network|socket hang up|fetch failed|timed out/i;
+
+/**
+ * Sorts command failures into transient ones that are worth retrying
+ * (model rate limits and network trouble) and everything else. Errors
+ * wrapped in an ExtensionError are judged by their cause.
+ */
+export class ModelErrorClassifier {
+    public static classify(error: unknown): ClassifiedError {
+        if (error instanceof ExtensionError && error.code !== ErrorCode.LANGUAGE_MODEL_ERROR) {
+            return { code: error.code, message: error.message, retryable: false };
+        }
+
+        const cause = error instanceof ExtensionError && error.details !== undefined ? error.details : error;
+        const message = cause instanceof Error ? cause.message : String(cause);
+        const code = this.getErrorCode(cause);
+
+        if (RATE_LIMIT_PATTERN.test(message) || RATE_LIMIT_PATTERN.test(code)) {
+            return { code: ErrorCode.LANGUAGE_MODEL_RATE_LIMITED, message, retryable: true };
+        }
+        if (NETWORK_ERROR_CODES.has(code) || NETWORK_PATTERN.test(message)) {
+            return { code: ErrorCode.LANGUAGE_MODEL_ERROR, message, retryable: true };
+        }
+        return { code: ErrorCode.LANGUAGE_MODEL_ERROR, message, retryable: false };
+    }
+
+    private static getErrorCode(error: unknown): string {
+        if (typeof error === 'object' && error !== null && 'code' in error) {
+            const code = (error as { code: unknown }).code;
+            return typeof code === 'string' ? code : '';
+        }
+        return '';
+    }
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from '../config';
+import { ErrorCode, ExtensionError } from '../types/errors';
+import { GitignoreMatcher } from './gitignore';
+
+/**
+ * Decides which paths remote clients and the model may touch. Paths are
+ * resolved through symlinks before they are checked, repositories must sit
+ * inside an open workspace folder, files must sit inside their session's
+ * repository, and files matching `remoteVibe.deniedPathPatterns` (secrets
+ * by default) are refused. Violations throw PATH_NOT_ALLOWED.
+ */
+export class PathPolicy {
+    /**
+     * Resolves a repository path for a new session and returns its real path.
+     */
+    public static resolveRepositoryPath(repositoryPath: string): string {
+        if (!path.isAbsolute(repositoryPath)) {
+            throw this.denied('Repository path must be absolute', repositoryPath);
+        }
+
+        const realPath = this.realPath(repositoryPath);
+        if (!realPath || !fs.statSync(realPath).isDirectory()) {
+            throw this.denied('Repository path does not exist or is not a directory', repositoryPath);
+        }
+
+        const folders = (vscode.workspace.workspaceFolders || [])
+            .filter(folder => folder.uri.scheme === 'file')
+            .map(folder => this.realPath(folder.uri.fsPath))
+            .filter((folder): folder is string => folder !== null);
+
+        if (!folders.some(folder => this.isWithin(folder, realPath))) {
+            throw this.denied('Repository path is outside the open workspace folders', repositoryPath);
+        }
+
+        return realPath;
+    }
+
+    /**
+     * Resolves a file path against a session's repository and returns the
+     * absolute path to use. Files that do not exist yet are checked through
+     * their nearest existing parent directory.
+     */
+    public static resolveFilePath(repositoryPath: string, filePath: string): string {
+        const root = this.realPath(repositoryPath) ?? path.resolve(repositoryPath);
+        const target = path.resolve(root, filePath);
+        const realTarget = this.realPathOfNearestExisting(target);
+
+        if (!this.isWithin(root, realTarget)) {
+            throw this.denied('Path is outside the session repository', filePath);
+        }
+
+        const relativePath = path.relative(root, realTarget).split(path.sep).join('/');
+        if (relativePath && this.getDeniedMatcher().isIgnored(relativePath)) {
+            throw this.denied('Path matches a denied pattern', filePath);
+        }
+
+        return realTarget;
+    }
+
+    public static isAllowedFilePath(repositoryPath: string, filePath: string): boolean {
+        try {
+            this.resolveFilePath(repositoryPath, filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private static getDeniedMatcher(): GitignoreMatcher {
+        const matcher = new GitignoreMatcher();
+        matcher.add('', Config.getDeniedPathPatterns().join('\n'));
+        return matcher;
+    }
+
+    private static realPathOfNearestExisting(target: string): string {
+        const missing: string[] = [];
+
+        for (let current = target; ; current = path.dirname(current)) {
+            const realPath = this.realPath(current);
+            if (realPath) {
+                return path.join(realPath, ...missing);
+            }
+            if (path.dirname(current) === current) {
+                return target;
+            }
+            missing.unshift(path.basename(current));
+        }
+    }
+
+    private static realPath(target: string): string | null {
+        try {
+            return fs.realpathSync(target);
+        } catch {
+            return null;
+        }
+    }
+
+    private static isWithin(root: string, target: string): boolean {
+        const relative = path.relative(root, target);
+        return relative === ''
+            || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+    }
+
+    private static denied(message: string, requestedPath: string): ExtensionError {
+        return new ExtensionError(message, ErrorCode.PATH_NOT_ALLOWED, { path: requestedPath });
+    }
+}
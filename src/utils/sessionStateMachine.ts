@@ -0,0 +1,41 @@
+import { Session, SessionStatus } from '../types/session';
+import { ErrorCode, ExtensionError } from '../types/errors';
+
+/**
+ * The statuses a session may move to from each status. A session idles
+ * until a command starts processing, may stop to wait for answers while the
+ * command runs, and ends up idle or in error when the queue drains. Only
+ * sessions that aren't running anything can be completed, and completed or
+ * archived sessions only move on by being resumed to idle.
+ */
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+    [SessionStatus.Idle]: [SessionStatus.Processing, SessionStatus.WaitingForInput, SessionStatus.Completed],
+    [SessionStatus.Processing]: [SessionStatus.WaitingForInput, SessionStatus.Idle, SessionStatus.Error],
+    [SessionStatus.WaitingForInput]: [SessionStatus.Processing, SessionStatus.Idle, SessionStatus.Error, SessionStatus.Completed],
+    [SessionStatus.Error]: [SessionStatus.Processing, SessionStatus.Idle, SessionStatus.Completed],
+    [SessionStatus.Completed]: [SessionStatus.Idle, SessionStatus.Archived],
+    [SessionStatus.Archived]: [SessionStatus.Idle]
+};
+
+export class SessionStateMachine {
+    public static canTransition(from: SessionStatus, to: SessionStatus): boolean {
+        return TRANSITIONS[from].includes(to);
+    }
+
+    public static getAllowedTransitions(from: SessionStatus): SessionStatus[] {
+        return [...TRANSITIONS[from]];
+    }
+
+    /**
+     * Throws INVALID_SESSION_STATE unless the session may move to `to`.
+     */
+    public static assertTransition(session: Session, to: SessionStatus): void {
+        if (!this.canTransition(session.status, to)) {
+            throw new ExtensionError(
+                `Cannot move a session from ${session.status} to ${to}`,
+                ErrorCode.INVALID_SESSION_STATE,
+                { sessionId: session.id, from: session.status, to, allowed: this.getAllowedTransitions(session.status) }
+            );
+        }
+    }
+}
@@ -1,14 +1,18 @@
-import { StartSessionRequest } from '../types/session';
-import { CommandRequest } from '../types/commands';
-import { RespondRequest } from '../types/questions';
+import { ForkSessionRequest, StartSessionRequest } from '../types/session';
+import { CommandRequest, MoveQueuedCommandRequest } from '../types/commands';
+import { QuestionAnswer, RespondRequest } from '../types/questions';
+import { ModelSelector } from '../types/models';
+import { PairRequest } from '../types/pairing';
 
 export class Validator {
+    private static readonly MAX_BATCH_ANSWERS = 20;
+
     public static validateStartSessionRequest(body: any): body is StartSessionRequest {
         return (
             typeof body === 'object' &&
             body !== null &&
-            typeof body.repositoryPath === 'string' &&
-            body.repositoryPath.trim().length > 0
+            this.isValidPath(body.repositoryPath) &&
+            this.isValidModelPreferences(body.modelPreferences)
         );
     }
 
@@ -20,19 +24,110 @@ export class Validator {
             body.sessionId.trim().length > 0 &&
             typeof body.command === 'string' &&
             body.command.trim().length > 0 &&
-            body.command.length <= 10000
+            body.command.length <= 10000 &&
+            this.isValidModelPreferences(body.modelPreferences)
+        );
+    }
+
+    public static validateMoveQueuedCommandRequest(body: unknown): body is MoveQueuedCommandRequest {
+        if (typeof body !== 'object' || body === null) {
+            return false;
+        }
+
+        const { position } = body as Partial<MoveQueuedCommandRequest>;
+        return typeof position === 'number' && Number.isInteger(position) && position >= 1;
+    }
+
+    public static validateForkSessionRequest(body: unknown): body is ForkSessionRequest {
+        if (typeof body !== 'object' || body === null) {
+            return false;
+        }
+
+        // Exactly one of messageId and commandId
+        const { messageId, commandId } = body as { messageId?: unknown; commandId?: unknown };
+        if ((messageId === undefined) === (commandId === undefined)) {
+            return false;
+        }
+
+        const id = messageId ?? commandId;
+        return typeof id === 'string' && id.trim().length > 0;
+    }
+
+    public static validatePairRequest(body: unknown): body is PairRequest {
+        if (typeof body !== 'object' || body === null) {
+            return false;
+        }
+
+        const { code, deviceName } = body as Partial<PairRequest>;
+        return (
+            typeof code === 'string' &&
+            code.length > 0 &&
+            code.length <= 256 &&
+            typeof deviceName === 'string' &&
+            deviceName.trim().length > 0 &&
+            deviceName.length <= 100
         );
     }
 
+    /**
+     * Accepts either a single `questionId`/`answer` pair or an `answers`
+     * batch with distinct question ids.
+     */
     public static validateRespondRequest(body: any): body is RespondRequest {
+        if (typeof body !== 'object' || body === null) {
+            return false;
+        }
+
+        if (body.answers === undefined) {
+            return this.isValidAnswer(body);
+        }
+
         return (
-            typeof body === 'object' &&
-            body !== null &&
-            typeof body.questionId === 'string' &&
-            body.questionId.trim().length > 0 &&
-            typeof body.answer === 'string' &&
-            body.answer.trim().length > 0 &&
-            body.answer.length <= 1000
+            body.questionId === undefined &&
+            body.answer === undefined &&
+            Array.isArray(body.answers) &&
+            body.answers.length > 0 &&
+            body.answers.length <= this.MAX_BATCH_ANSWERS &&
+            body.answers.every((answer: unknown) => this.isValidAnswer(answer)) &&
+            new Set(body.answers.map((answer: QuestionAnswer) => answer.questionId)).size === body.answers.length
+        );
+    }
+
+    private static isValidAnswer(value: unknown): value is QuestionAnswer {
+        if (typeof value !== 'object' || value === null) {
+            return false;
+        }
+
+        const { questionId, answer } = value as Partial<QuestionAnswer>;
+        return (
+            typeof questionId === 'string' &&
+            questionId.trim().length > 0 &&
+            typeof answer === 'string' &&
+            answer.trim().length > 0 &&
+            answer.length <= 1000
+        );
+    }
+
+    public static isValidModelPreferences(value: unknown): value is ModelSelector[] | undefined {
+        if (value === undefined) {
+            return true;
+        }
+
+        const selectorKeys = ['vendor', 'family', 'version', 'id'];
+
+        return (
+            Array.isArray(value) &&
+            value.length <= 10 &&
+            value.every(selector =>
+                typeof selector === 'object' &&
+                selector !== null &&
+                Object.keys(selector).length > 0 &&
+                Object.entries(selector).every(([key, field]) =>
+                    selectorKeys.includes(key) &&
+                    typeof field === 'string' &&
+                    field.trim().length > 0
+                )
+            )
         );
     }
 
@@ -41,7 +136,10 @@ export class Validator {
         return uuidRegex.test(str);
     }
 
-    public static isValidPath(path: string): boolean {
-        return typeof path === 'string' && path.trim().length > 0;
+    /**
+     * Shape check only; whether a path may be used is decided by PathPolicy.
+     */
+    public static isValidPath(path: unknown): path is string {
+        return typeof path === 'string' && path.trim().length > 0 && !path.includes('\0');
     }
 }
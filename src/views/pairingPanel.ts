@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import QRCode from 'qrcode';
+import { PairingService } from '../services/pairingService';
+import { PairingPayload } from '../types/pairing';
+import { TlsCredentials } from '../types/tls';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Webview that shows a pairing QR code. The code it shows is invalidated when
+ * the panel is closed, and the panel switches to a confirmation once a
+ * device has redeemed it.
+ */
+export class PairingPanel {
+    private static readonly VIEW_TYPE = 'remoteVibe.pairing';
+
+    private static _current: PairingPanel | null = null;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _pairingService: PairingService;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _code: string | null = null;
+
+    public static async show(pairingService: PairingService, port: number, tls: TlsCredentials | null): Promise<void> {
+        if (!PairingPanel._current) {
+            const panel = vscode.window.createWebviewPanel(
+                PairingPanel.VIEW_TYPE,
+                'Pair Remote Vibe Device',
+                vscode.ViewColumn.Active,
+                { enableScripts: false }
+            );
+            PairingPanel._current = new PairingPanel(panel, pairingService);
+        }
+
+        PairingPanel._current._panel.reveal();
+        await PairingPanel._current.render(port, tls);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, pairingService: PairingService) {
+        this._panel = panel;
+        this._pairingService = pairingService;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._pairingService.onDidPair(device => {
+            this._code = null;
+            this._panel.webview.html = this.getPairedHtml(device.name);
+        }, null, this._disposables);
+    }
+
+    private async render(port: number, tls: TlsCredentials | null): Promise<void> {
+        const offer = this._pairingService.createOffer();
+        this._code = offer.code;
+
+        const host = getLanAddress();
+        const payload: PairingPayload = {
+            type: 'remote-vibe-pairing',
+            version: 1,
+            serverUrl: `${tls ? 'https' : 'http'}://${host}:${port}`,
+            backendUrl: Config.getBackendUrl().replace(/\/\/(localhost|127\.0\.0\.1)(?=[:/]|$)/, `//${host}`),
+            code: offer.code,
+            expiresAt: offer.expiresAt,
+            fingerprint: tls?.fingerprint ?? null,
+            publicKeyPin: tls?.publicKeyPin ?? null
+        };
+
+        const text = JSON.stringify(payload);
+        const svg = await QRCode.toString(text, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+
+        logger.info('Pairing panel shown', { serverUrl: payload.serverUrl });
+
+        this._panel.webview.html = this.getQrHtml(svg, payload, text);
+    }
+
+    private getQrHtml(svg: string, payload: PairingPayload, text: string): string {
+        const expires = new Date(payload.expiresAt).toLocaleTimeString();
+
+        return this.wrapHtml(`
+            <h1>Pair a device</h1>
+            <p>Open Remote Vibe on your phone, go to Settings and choose <strong>Scan pairing code</strong>.</p>
+            <div class="qr">${svg}</div>
+            <p>This code can be used once and expires at ${escapeHtml(expires)}.</p>
+            <details>
+                <summary>Can't scan?</summary>
+                <p>Server: <code>${escapeHtml(payload.serverUrl)}</code></p>
+                <p>Certificate fingerprint: <code>${escapeHtml(payload.fingerprint ?? 'none (TLS disabled)')}</code></p>
+                <p>Pairing payload:</p>
+                <pre>${escapeHtml(text)}</pre>
+            </details>
+        `);
+    }
+
+    private getPairedHtml(deviceName: string): string {
+        return this.wrapHtml(`
+            <h1>Device paired</h1>
+            <p><strong>${escapeHtml(deviceName)}</strong> can now connect to Remote Vibe.</p>
+            <p>Revoke it at any time with <code>Remote Vibe: Revoke Device Key</code>.</p>
+        `);
+    }
+
+    private wrapHtml(body: string): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); padding: 16px; }
+        .qr { background: #fff; display: inline-block; padding: 8px; }
+        .qr svg { width: 280px; height: 280px; }
+        pre { white-space: pre-wrap; word-break: break-all; }
+    </style>
+</head>
+<body>${body}</body>
+</html>`;
+    }
+
+    private dispose(): void {
+        if (this._code) {
+            this._pairingService.cancelOffer(this._code);
+            this._code = null;
+        }
+
+        PairingPanel._current = null;
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
+
+/**
+ * The first non-internal IPv4 address, so a phone on the same network can
+ * reach the server. Falls back to localhost when there is none.
+ */
+function getLanAddress(): string {
+    for (const addresses of Object.values(os.networkInterfaces())) {
+        for (const address of addresses || []) {
+            if (address.family === 'IPv4' && !address.internal) {
+                return address.address;
+            }
+        }
+    }
+    return 'localhost';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}